@@ -0,0 +1,242 @@
+import {
+  AccountInfo,
+  BlockhashWithExpiryBlockHeight,
+  Connection,
+  PublicKey,
+  RpcResponseAndContext,
+} from "@solana/web3.js";
+import { Token, ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { DeploymentConfig, PoolConfig, TokenConfig } from "../calculations/types";
+import { SwapInfo } from "./type_definitions";
+
+// account info in json, data is base64 encoded
+export type SerializedAccountInfo = {
+  owner: string;
+  lamports: number;
+  executable: boolean;
+  rentEpoch: number;
+  data: string;
+};
+
+// accounts of a cluster at a given slot, accounts that do not exist are recorded as null
+export type AccountSnapshot = {
+  slot: number;
+  blockhash: string;
+  lastValidBlockHeight: number;
+  accounts: Record<string, SerializedAccountInfo | null>;
+};
+
+// same formula as the rent sysvar with the default rent config of the clusters
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+const LAMPORTS_PER_BYTE_YEAR = 3480;
+const EXEMPTION_THRESHOLD_YEARS = 2;
+
+function serializeAccountInfo(
+  accountInfo: AccountInfo<Buffer> | null,
+): SerializedAccountInfo | null {
+  if (!accountInfo) {
+    return null;
+  }
+  return {
+    owner: accountInfo.owner.toBase58(),
+    lamports: accountInfo.lamports,
+    executable: accountInfo.executable,
+    rentEpoch: accountInfo.rentEpoch,
+    data: accountInfo.data.toString("base64"),
+  };
+}
+
+function deserializeAccountInfo(
+  serializedAccountInfo: SerializedAccountInfo | null,
+): AccountInfo<Buffer> | null {
+  if (!serializedAccountInfo) {
+    return null;
+  }
+  return {
+    owner: new PublicKey(serializedAccountInfo.owner),
+    lamports: serializedAccountInfo.lamports,
+    executable: serializedAccountInfo.executable,
+    rentEpoch: serializedAccountInfo.rentEpoch,
+    data: Buffer.from(serializedAccountInfo.data, "base64"),
+  };
+}
+
+/**
+ * get the accounts needed to quote and build transactions of a pool
+ * includes the market config, swap info, token mints, farm infos, pyth price accounts,
+ * serum market accounts, and the wallet's deltafi user, liquidity provider, farm users
+ * and token accounts if wallet is set
+ * @param program deltafi program, used to read the swap info
+ * @param deployConfig deployed account addresses info
+ * @param poolConfig config of the pool
+ * @param walletPubkey wallet public key, optional
+ * @returns public keys of the accounts
+ */
+export async function getDeltafiSnapshotPubkeys(
+  program: any,
+  deployConfig: DeploymentConfig,
+  poolConfig: PoolConfig,
+  walletPubkey?: PublicKey,
+): Promise<PublicKey[]> {
+  const marketConfig = new PublicKey(deployConfig.marketConfig);
+  const swapInfoPubkey = new PublicKey(poolConfig.swapInfo);
+  const swapInfo: SwapInfo = await program.account.swapInfo.fetch(swapInfoPubkey);
+  const farmInfoPubkeys: PublicKey[] = (poolConfig.farmInfoList || []).map(
+    ({ farmInfo }) => new PublicKey(farmInfo),
+  );
+
+  // pyth price accounts of all the tokens, so getSymbolToPythPriceData can read the whole token list
+  const pythPricePubkeys: PublicKey[] = deployConfig.tokenInfoList
+    .filter(({ pyth }) => !!pyth)
+    .map(({ pyth }) => new PublicKey(pyth.price));
+
+  // serum's Market.load reads the mint accounts, they are recorded for every pool
+  const pubkeys: PublicKey[] = [
+    marketConfig,
+    swapInfoPubkey,
+    swapInfo.mintBase,
+    swapInfo.mintQuote,
+    ...farmInfoPubkeys,
+    ...pythPricePubkeys,
+  ];
+  if (swapInfo.swapType.serumSwap) {
+    pubkeys.push(swapInfo.serumMarket, swapInfo.serumBids, swapInfo.serumAsks);
+  }
+
+  if (walletPubkey) {
+    const [deltafiUserPubkey] = await PublicKey.findProgramAddress(
+      [Buffer.from("User"), marketConfig.toBuffer(), walletPubkey.toBuffer()],
+      program.programId,
+    );
+    const [lpPubkey] = await PublicKey.findProgramAddress(
+      [Buffer.from("LiquidityProvider"), swapInfoPubkey.toBuffer(), walletPubkey.toBuffer()],
+      program.programId,
+    );
+    pubkeys.push(deltafiUserPubkey, lpPubkey);
+
+    for (const farmInfoPubkey of farmInfoPubkeys) {
+      const [farmUserPubkey] = await PublicKey.findProgramAddress(
+        [Buffer.from("FarmUser"), farmInfoPubkey.toBuffer(), walletPubkey.toBuffer()],
+        program.programId,
+      );
+      pubkeys.push(farmUserPubkey);
+    }
+
+    for (const mint of [
+      swapInfo.mintBase,
+      swapInfo.mintQuote,
+      new PublicKey(deployConfig.deltafiMint),
+    ]) {
+      pubkeys.push(
+        await Token.getAssociatedTokenAddress(
+          ASSOCIATED_TOKEN_PROGRAM_ID,
+          TOKEN_PROGRAM_ID,
+          mint,
+          walletPubkey,
+        ),
+      );
+    }
+  }
+
+  return pubkeys;
+}
+
+/**
+ * read the accounts at the same slot and record them into a json serializable snapshot
+ * @param connection rpc call connection
+ * @param pubkeys public keys of the accounts, see getDeltafiSnapshotPubkeys
+ * @returns snapshot of the accounts
+ */
+export async function recordAccountSnapshot(
+  connection: Connection,
+  pubkeys: PublicKey[],
+): Promise<AccountSnapshot> {
+  const uniquePubkeys = Array.from(new Set(pubkeys.map((pubkey) => pubkey.toBase58()))).map(
+    (pubkey) => new PublicKey(pubkey),
+  );
+  const { context, value } = await connection.getMultipleAccountsInfoAndContext(uniquePubkeys);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+
+  const accounts: Record<string, SerializedAccountInfo | null> = {};
+  uniquePubkeys.forEach((pubkey, i) => {
+    accounts[pubkey.toBase58()] = serializeAccountInfo(value[i]);
+  });
+  return { slot: context.slot, blockhash, lastValidBlockHeight, accounts };
+}
+
+/**
+ * record the accounts of a pool and the wallet's accounts of the pool
+ * the snapshot can be replayed with SnapshotConnection
+ */
+export async function recordDeltafiAccountSnapshot(
+  program: any,
+  deployConfig: DeploymentConfig,
+  poolConfig: PoolConfig,
+  walletPubkey?: PublicKey,
+): Promise<AccountSnapshot> {
+  const pubkeys = await getDeltafiSnapshotPubkeys(program, deployConfig, poolConfig, walletPubkey);
+  return recordAccountSnapshot(program.provider.connection, pubkeys);
+}
+
+/**
+ * connection stand-in that serves the accounts of a snapshot instead of calling the rpc
+ * it can be used by the program's provider, getSymbolToPythPriceData and the transaction builders
+ * reading an account that is not recorded throws, so that the snapshot is never silently incomplete
+ * rpc methods other than the ones below are not supported
+ */
+export class SnapshotConnection extends Connection {
+  readonly snapshot: AccountSnapshot;
+
+  constructor(snapshot: AccountSnapshot, endpoint: string = "http://localhost:8899") {
+    super(endpoint);
+    this.snapshot = snapshot;
+  }
+
+  private getSnapshotAccountInfo(publicKey: PublicKey): AccountInfo<Buffer> | null {
+    const address = publicKey.toBase58();
+    if (!(address in this.snapshot.accounts)) {
+      throw Error("Account not in snapshot: " + address);
+    }
+    return deserializeAccountInfo(this.snapshot.accounts[address]);
+  }
+
+  async getAccountInfo(publicKey: PublicKey) {
+    return this.getSnapshotAccountInfo(publicKey);
+  }
+
+  async getAccountInfoAndContext(
+    publicKey: PublicKey,
+  ): Promise<RpcResponseAndContext<AccountInfo<Buffer> | null>> {
+    return { context: { slot: this.snapshot.slot }, value: this.getSnapshotAccountInfo(publicKey) };
+  }
+
+  async getMultipleAccountsInfo(publicKeys: PublicKey[]) {
+    return publicKeys.map((publicKey) => this.getSnapshotAccountInfo(publicKey));
+  }
+
+  async getMultipleAccountsInfoAndContext(
+    publicKeys: PublicKey[],
+  ): Promise<RpcResponseAndContext<(AccountInfo<Buffer> | null)[]>> {
+    return {
+      context: { slot: this.snapshot.slot },
+      value: publicKeys.map((publicKey) => this.getSnapshotAccountInfo(publicKey)),
+    };
+  }
+
+  async getSlot(): Promise<number> {
+    return this.snapshot.slot;
+  }
+
+  async getLatestBlockhash(): Promise<BlockhashWithExpiryBlockHeight> {
+    return {
+      blockhash: this.snapshot.blockhash,
+      lastValidBlockHeight: this.snapshot.lastValidBlockHeight,
+    };
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number) {
+    return (
+      (ACCOUNT_STORAGE_OVERHEAD + dataLength) * LAMPORTS_PER_BYTE_YEAR * EXEMPTION_THRESHOLD_YEARS
+    );
+  }
+}
@@ -0,0 +1,190 @@
+import { PublicKey } from "@solana/web3.js";
+import { FarmInfo, MarketConfig, SwapInfo } from "./type_definitions";
+import { DeploymentConfig, PoolConfig, TokenConfig } from "../calculations/types";
+
+// a field of an on-chain account that does not match the deployment config
+export type ConfigMismatch = {
+  field: string;
+  expected: string;
+  actual: string;
+};
+
+export type MarketConfigVerificationReport = {
+  marketConfig: string;
+  exists: boolean;
+  mismatches: ConfigMismatch[];
+};
+
+export type FarmVerificationReport = {
+  name: string;
+  farmInfo: string;
+  exists: boolean;
+  mismatches: ConfigMismatch[];
+};
+
+export type PoolVerificationReport = {
+  name: string;
+  swapInfo: string;
+  exists: boolean;
+  mismatches: ConfigMismatch[];
+  farms: FarmVerificationReport[];
+};
+
+export type DeploymentVerificationReport = {
+  // true if all the accounts exist and match the deployment config
+  valid: boolean;
+  // market configs of the deployment and of the pools
+  marketConfigs: MarketConfigVerificationReport[];
+  pools: PoolVerificationReport[];
+};
+
+// push a mismatch if the on-chain value is not the expected value of the config
+function checkField(
+  mismatches: ConfigMismatch[],
+  field: string,
+  expected: string | number | undefined,
+  actual: PublicKey | number,
+) {
+  const actualValue = actual instanceof PublicKey ? actual.toBase58() : String(actual);
+  if (String(expected) !== actualValue) {
+    mismatches.push({ field, expected: String(expected), actual: actualValue });
+  }
+}
+
+function verifyMarketConfig(
+  deployConfig: DeploymentConfig,
+  marketConfigPubkey: string,
+  marketConfig: MarketConfig | null,
+): MarketConfigVerificationReport {
+  const mismatches: ConfigMismatch[] = [];
+  if (marketConfig) {
+    checkField(mismatches, "deltafiMint", deployConfig.deltafiMint, marketConfig.deltafiMint);
+    checkField(mismatches, "deltafiToken", deployConfig.deltafiToken, marketConfig.deltafiToken);
+    checkField(mismatches, "pythProgramId", deployConfig.pythProgramId, marketConfig.pythProgramId);
+  }
+  return { marketConfig: marketConfigPubkey, exists: !!marketConfig, mismatches };
+}
+
+function verifyPool(
+  deployConfig: DeploymentConfig,
+  poolConfig: PoolConfig,
+  swapInfo: SwapInfo | null,
+  farmInfoByAddress: Record<string, FarmInfo | null>,
+): PoolVerificationReport {
+  const mismatches: ConfigMismatch[] = [];
+  const baseTokenConfig: TokenConfig | undefined = deployConfig.tokenInfoList.find(
+    ({ symbol }) => symbol === poolConfig.base,
+  );
+  const quoteTokenConfig: TokenConfig | undefined = deployConfig.tokenInfoList.find(
+    ({ symbol }) => symbol === poolConfig.quote,
+  );
+
+  if (swapInfo) {
+    checkField(mismatches, "configKey", deployConfig.marketConfig, swapInfo.configKey);
+    checkField(mismatches, "mintBase", poolConfig.mintBase, swapInfo.mintBase);
+    checkField(mismatches, "mintQuote", poolConfig.mintQuote, swapInfo.mintQuote);
+    checkField(
+      mismatches,
+      "mintBaseDecimals",
+      baseTokenConfig?.decimals,
+      swapInfo.mintBaseDecimals,
+    );
+    checkField(
+      mismatches,
+      "mintQuoteDecimals",
+      quoteTokenConfig?.decimals,
+      swapInfo.mintQuoteDecimals,
+    );
+    // serum swap pools are priced by the serum order book and do not use pyth
+    if (!swapInfo.swapType.serumSwap) {
+      checkField(mismatches, "pythPriceBase", baseTokenConfig?.pyth?.price, swapInfo.pythPriceBase);
+      checkField(
+        mismatches,
+        "pythPriceQuote",
+        quoteTokenConfig?.pyth?.price,
+        swapInfo.pythPriceQuote,
+      );
+    }
+  }
+
+  const farms: FarmVerificationReport[] = (poolConfig.farmInfoList || []).map(
+    ({ name, farmInfo }) => {
+      const farmMismatches: ConfigMismatch[] = [];
+      const farmInfoData = farmInfoByAddress[farmInfo];
+      if (farmInfoData) {
+        checkField(farmMismatches, "swapKey", poolConfig.swapInfo, farmInfoData.swapKey);
+        checkField(farmMismatches, "configKey", deployConfig.marketConfig, farmInfoData.configKey);
+      }
+      return { name, farmInfo, exists: !!farmInfoData, mismatches: farmMismatches };
+    },
+  );
+
+  return {
+    name: poolConfig.name,
+    swapInfo: poolConfig.swapInfo,
+    exists: !!swapInfo,
+    mismatches,
+    farms,
+  };
+}
+
+/**
+ * check the pools of a deployment config against the accounts on chain
+ * - the market config of the deployment and of each pool matches the deltafi mint, token and pyth program
+ * - each pool's swap info has the mints, decimals and pyth price accounts of its tokens
+ * - each farm's farm info points back at its pool
+ * missing accounts and mismatched fields are reported instead of thrown
+ * @param program deltafi program of the deployment
+ * @param deployConfig deployment config to verify
+ * @returns structured report of the deployment, with the mismatches of each account
+ */
+export async function verifyDeploymentConfig(
+  program: any,
+  deployConfig: DeploymentConfig,
+): Promise<DeploymentVerificationReport> {
+  const poolConfigs: PoolConfig[] = deployConfig.poolInfoList;
+  const swapInfos: (SwapInfo | null)[] = await program.account.swapInfo.fetchMultiple(
+    poolConfigs.map(({ swapInfo }) => new PublicKey(swapInfo)),
+  );
+
+  const farmInfoAddresses: string[] = [];
+  poolConfigs.forEach(({ farmInfoList }) =>
+    (farmInfoList || []).forEach(({ farmInfo }) => farmInfoAddresses.push(farmInfo)),
+  );
+  const farmInfos: (FarmInfo | null)[] = await program.account.farmInfo.fetchMultiple(
+    farmInfoAddresses.map((farmInfo) => new PublicKey(farmInfo)),
+  );
+  const farmInfoByAddress: Record<string, FarmInfo | null> = {};
+  farmInfoAddresses.forEach((farmInfo, i) => {
+    farmInfoByAddress[farmInfo] = farmInfos[i];
+  });
+
+  // the deployment's market config, and any other market config the pools point at
+  const marketConfigAddresses: string[] = Array.from(
+    new Set([
+      deployConfig.marketConfig,
+      ...swapInfos.filter((swapInfo) => !!swapInfo).map(({ configKey }) => configKey.toBase58()),
+    ]),
+  );
+  const marketConfigs: (MarketConfig | null)[] = await program.account.marketConfig.fetchMultiple(
+    marketConfigAddresses.map((marketConfig) => new PublicKey(marketConfig)),
+  );
+
+  const marketConfigReports = marketConfigAddresses.map((marketConfig, i) =>
+    verifyMarketConfig(deployConfig, marketConfig, marketConfigs[i]),
+  );
+  const poolReports = poolConfigs.map((poolConfig, i) =>
+    verifyPool(deployConfig, poolConfig, swapInfos[i], farmInfoByAddress),
+  );
+
+  const isValid = (report: { exists: boolean; mismatches: ConfigMismatch[] }) =>
+    report.exists && report.mismatches.length === 0;
+
+  return {
+    valid:
+      marketConfigReports.every(isValid) &&
+      poolReports.every((poolReport) => isValid(poolReport) && poolReport.farms.every(isValid)),
+    marketConfigs: marketConfigReports,
+    pools: poolReports,
+  };
+}
@@ -0,0 +1,567 @@
+import BigNumber from "bignumber.js";
+import { BN, Program, AnchorProvider } from "@project-serum/anchor";
+import { Wallet } from "@project-serum/anchor/dist/cjs/provider";
+import { Connection, PublicKey, Signer, Transaction, TransactionSignature } from "@solana/web3.js";
+import { DeltafiDexV2 } from "./types/deltafi_dex_v2";
+import { DeltafiUser, LiquidityProvider, MarketConfig, SwapInfo } from "./type_definitions";
+import { getDeltafiDexV2, makeProvider } from "./anchor_utils";
+import { getSymbolToPythPriceData } from "./pyth_utils";
+import { createPythPriceSource, createSerumPriceSource, PriceSource } from "./price_source";
+import {
+  createClaimAllRewardsTransaction,
+  createClaimFarmRewardsTransaction,
+  createDepositToFarmTransaction,
+  createDepositTransaction,
+  createSwapTransaction,
+  createWithdrawFromFarmTransaction,
+  createWithdrawTransaction,
+  getDeltafiUser,
+  getFarmInfoPubkey,
+  getFarmUser,
+  getOrCreateAssociatedTokenAccountTransaction,
+  mergeTransactions,
+  SwapTransactionOptions,
+} from "./transaction_utils";
+import { getSwapDirection, getSwapOutResult, SwapResult } from "../calculations/swapOutAmount";
+import {
+  getMinOutAmountDeposit,
+  getWithdrawPreview,
+  TokenWithdrawPreview,
+} from "../calculations/calculation";
+import { getPoolConfigsByTokens } from "../calculations/splitOrder";
+import { calculateLiquidityPosition, LiquidityPosition } from "../calculations/lpPosition";
+import { anchorBnToString, bnToAnchorBn, stringToAnchorBn } from "../calculations/tokenUtils";
+import { DeploymentConfig, PoolConfig, TokenConfig } from "../calculations/types";
+
+export type DeltaFiClientOptions = {
+  // price source of all the pools, pyth prices for pyth pools and serum prices for serum pools by default
+  priceSource?: PriceSource;
+  // default max slippage of the swaps, in percentage
+  maxSlippage?: number;
+  // min ratio of the expected shares or amounts of the deposits and withdrawals
+  minCoeff?: number;
+};
+
+/**
+ * high-level client of a deltafi deployment
+ * it resolves the pools, tokens, token accounts and prices, then builds, signs and sends
+ * the transactions with the low-level transaction builders
+ * pools are referred by pool name or swap info address, tokens by symbol or mint
+ * and amounts and shares are in UI unit
+ */
+export class DeltaFiClient {
+  readonly deployConfig: DeploymentConfig;
+  readonly connection: Connection;
+  readonly wallet: Wallet;
+  readonly provider: AnchorProvider;
+  readonly program: Program<DeltafiDexV2>;
+  private readonly options: DeltaFiClientOptions;
+  private serumProgramId: PublicKey | null = null;
+
+  constructor(
+    deployConfig: DeploymentConfig,
+    connection: Connection,
+    wallet: Wallet,
+    options: DeltaFiClientOptions = {},
+  ) {
+    this.deployConfig = deployConfig;
+    this.connection = connection;
+    this.wallet = wallet;
+    this.provider = makeProvider(connection, wallet);
+    this.program = getDeltafiDexV2(new PublicKey(deployConfig.programId), this.provider);
+    this.options = options;
+  }
+
+  // get the token config by symbol or mint address
+  getTokenConfig(token: string): TokenConfig {
+    const tokenConfig = this.deployConfig.tokenInfoList.find(
+      ({ symbol, mint }) => symbol === token || mint === token,
+    );
+    if (!tokenConfig) {
+      throw Error("Invalid token: " + token);
+    }
+    return tokenConfig;
+  }
+
+  // get the pool config by pool name or swap info address
+  getPoolConfig(pool: string): PoolConfig {
+    const poolConfig = this.deployConfig.poolInfoList.find(
+      ({ name, swapInfo }) => name === pool || swapInfo === pool,
+    );
+    if (!poolConfig) {
+      throw Error("Invalid pool: " + pool);
+    }
+    return poolConfig;
+  }
+
+  // get the first pool of the token pair, in either base/quote order
+  getPoolConfigByTokens(tokenA: string, tokenB: string): PoolConfig {
+    const [poolConfig] = getPoolConfigsByTokens(
+      this.deployConfig,
+      this.getTokenConfig(tokenA),
+      this.getTokenConfig(tokenB),
+    );
+    if (!poolConfig) {
+      throw Error("No pool for token pair: " + tokenA + " " + tokenB);
+    }
+    return poolConfig;
+  }
+
+  async getSwapInfo(poolConfig: PoolConfig): Promise<SwapInfo> {
+    return (await this.program.account.swapInfo.fetch(
+      new PublicKey(poolConfig.swapInfo),
+    )) as SwapInfo;
+  }
+
+  async getLiquidityProvider(poolConfig: PoolConfig): Promise<LiquidityProvider | null> {
+    const [lpPublicKey] = await PublicKey.findProgramAddress(
+      [
+        Buffer.from("LiquidityProvider"),
+        new PublicKey(poolConfig.swapInfo).toBuffer(),
+        this.wallet.publicKey.toBuffer(),
+      ],
+      this.program.programId,
+    );
+    return (await this.program.account.liquidityProvider.fetchNullable(
+      lpPublicKey,
+    )) as LiquidityProvider | null;
+  }
+
+  async getDeltafiUser(): Promise<DeltafiUser | null> {
+    return getDeltafiUser(
+      this.program,
+      new PublicKey(this.deployConfig.marketConfig),
+      this.wallet.publicKey,
+    );
+  }
+
+  /**
+   * quote a swap between two tokens with the first pool of the token pair
+   * @param fromToken symbol or mint of the input token
+   * @param toToken symbol or mint of the output token
+   * @param amountIn amount of the input token, in UI unit
+   * @param maxSlippage max slippage, in percentage
+   * @returns amount out information
+   */
+  async quote(
+    fromToken: string,
+    toToken: string,
+    amountIn: string,
+    maxSlippage: number = this.getMaxSlippage(),
+  ): Promise<SwapResult> {
+    const poolConfig = this.getPoolConfigByTokens(fromToken, toToken);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+    return getSwapOutResult(
+      await this.getPriceSource(swapInfo, poolConfig),
+      swapInfo,
+      this.getTokenConfig(fromToken),
+      this.getTokenConfig(toToken),
+      amountIn,
+      maxSlippage,
+    );
+  }
+
+  /**
+   * quote and send a swap between two tokens, the output token account is created if missing
+   * @returns signature of the swap transaction and the quote it is sent with
+   */
+  async swap(
+    fromToken: string,
+    toToken: string,
+    amountIn: string,
+    maxSlippage: number = this.getMaxSlippage(),
+    swapOptions: SwapTransactionOptions = {},
+  ): Promise<{ signature: TransactionSignature; swapResult: SwapResult }> {
+    const poolConfig = this.getPoolConfigByTokens(fromToken, toToken);
+    const fromTokenConfig = this.getTokenConfig(fromToken);
+    const toTokenConfig = this.getTokenConfig(toToken);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+
+    const swapResult = await getSwapOutResult(
+      await this.getPriceSource(swapInfo, poolConfig),
+      swapInfo,
+      fromTokenConfig,
+      toTokenConfig,
+      amountIn,
+      maxSlippage,
+    );
+    if (swapResult.insufficientLiquidity) {
+      throw Error("Insufficient liquidity: " + poolConfig.name);
+    }
+
+    const { tokenPubkey: inputTokenPubkey } = await this.getTokenAccount(fromTokenConfig);
+    const { tokenPubkey: outputTokenPubkey, transaction: transactionCreateOutputToken } =
+      await this.getTokenAccount(toTokenConfig);
+
+    const { transaction, signers } = await createSwapTransaction(
+      poolConfig,
+      this.program,
+      swapInfo,
+      await this.getDeltafiUser(),
+      this.wallet.publicKey,
+      inputTokenPubkey,
+      outputTokenPubkey,
+      stringToAnchorBn(fromTokenConfig, amountIn),
+      stringToAnchorBn(toTokenConfig, swapResult.amountOutWithSlippage),
+      getSwapDirection(fromTokenConfig, toTokenConfig, swapInfo),
+      swapOptions,
+    );
+
+    const signature = await this.send(
+      mergeTransactions([transactionCreateOutputToken, transaction]),
+      signers,
+    );
+    return { signature, swapResult };
+  }
+
+  /**
+   * deposit base and quote tokens to a pool
+   * the min shares are the expected shares multiplied by minCoeff
+   */
+  async deposit(
+    pool: string,
+    baseAmount: string,
+    quoteAmount: string,
+    minCoeff: number = this.getMinCoeff(),
+  ): Promise<TransactionSignature> {
+    const poolConfig = this.getPoolConfig(pool);
+    const baseTokenConfig = this.getTokenConfig(poolConfig.base);
+    const quoteTokenConfig = this.getTokenConfig(poolConfig.quote);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+
+    const { minBaseShare, minQuoteShare } = await getMinOutAmountDeposit(
+      await this.getPriceSource(swapInfo, poolConfig),
+      swapInfo,
+      baseTokenConfig,
+      quoteTokenConfig,
+      new BigNumber(baseAmount),
+      new BigNumber(quoteAmount),
+      new BigNumber(minCoeff),
+    );
+
+    const { tokenPubkey: baseTokenPubkey } = await this.getTokenAccount(baseTokenConfig);
+    const { tokenPubkey: quoteTokenPubkey } = await this.getTokenAccount(quoteTokenConfig);
+
+    const { transaction, signers } = await createDepositTransaction(
+      poolConfig,
+      this.program,
+      swapInfo,
+      baseTokenPubkey,
+      quoteTokenPubkey,
+      this.wallet.publicKey,
+      await this.getLiquidityProvider(poolConfig),
+      stringToAnchorBn(baseTokenConfig, baseAmount),
+      stringToAnchorBn(quoteTokenConfig, quoteAmount),
+      bnToAnchorBn(baseTokenConfig, minBaseShare),
+      bnToAnchorBn(quoteTokenConfig, minQuoteShare),
+    );
+    return this.send(transaction, signers);
+  }
+
+  /**
+   * preview a withdrawal from a pool, all the unstaked shares by default
+   * the gross amounts, the LP fee, the admin fee and the net amounts paid to the wallet
+   */
+  async previewWithdraw(
+    pool: string,
+    baseShare?: string,
+    quoteShare?: string,
+  ): Promise<{
+    base: TokenWithdrawPreview;
+    quote: TokenWithdrawPreview;
+  }> {
+    const poolConfig = this.getPoolConfig(pool);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+    const { baseShareBN, quoteShareBN } = await this.getWithdrawShares(
+      poolConfig,
+      baseShare,
+      quoteShare,
+    );
+    return getWithdrawPreview(
+      await this.getPriceSource(swapInfo, poolConfig),
+      swapInfo,
+      baseShareBN,
+      quoteShareBN,
+      this.getTokenConfig(poolConfig.base),
+      this.getTokenConfig(poolConfig.quote),
+    );
+  }
+
+  /**
+   * withdraw shares from a pool, all the unstaked shares by default
+   * the min amounts are the expected amounts after the withdraw fee multiplied by minCoeff
+   * the base and quote token accounts are created if missing
+   */
+  async withdraw(
+    pool: string,
+    baseShare?: string,
+    quoteShare?: string,
+    minCoeff: number = this.getMinCoeff(),
+  ): Promise<TransactionSignature> {
+    const poolConfig = this.getPoolConfig(pool);
+    const baseTokenConfig = this.getTokenConfig(poolConfig.base);
+    const quoteTokenConfig = this.getTokenConfig(poolConfig.quote);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+
+    const { baseShareBN, quoteShareBN } = await this.getWithdrawShares(
+      poolConfig,
+      baseShare,
+      quoteShare,
+    );
+    const { base, quote } = await getWithdrawPreview(
+      await this.getPriceSource(swapInfo, poolConfig),
+      swapInfo,
+      baseShareBN,
+      quoteShareBN,
+      baseTokenConfig,
+      quoteTokenConfig,
+    );
+
+    const { tokenPubkey: baseTokenPubkey, transaction: transactionCreateBaseToken } =
+      await this.getTokenAccount(baseTokenConfig);
+    const { tokenPubkey: quoteTokenPubkey, transaction: transactionCreateQuoteToken } =
+      await this.getTokenAccount(quoteTokenConfig);
+
+    const { transaction, signers } = await createWithdrawTransaction(
+      poolConfig,
+      this.program,
+      swapInfo,
+      baseTokenPubkey,
+      quoteTokenPubkey,
+      this.wallet.publicKey,
+      baseShareBN,
+      quoteShareBN,
+      bnToAnchorBn(baseTokenConfig, new BigNumber(base.netAmount).multipliedBy(minCoeff)),
+      bnToAnchorBn(quoteTokenConfig, new BigNumber(quote.netAmount).multipliedBy(minCoeff)),
+    );
+    return this.send(
+      mergeTransactions([transactionCreateBaseToken, transactionCreateQuoteToken, transaction]),
+      signers,
+    );
+  }
+
+  // stake liquidity provider shares to a farm of the pool
+  async stake(
+    pool: string,
+    baseShare: string,
+    quoteShare: string,
+    farmName: string = "default",
+  ): Promise<TransactionSignature> {
+    const poolConfig = this.getPoolConfig(pool);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+    const farmUser = await getFarmUser(
+      this.program,
+      getFarmInfoPubkey(poolConfig, farmName),
+      this.wallet.publicKey,
+    );
+
+    const { transaction, signers } = await createDepositToFarmTransaction(
+      poolConfig,
+      this.program,
+      swapInfo,
+      this.wallet.publicKey,
+      farmUser,
+      stringToAnchorBn(this.getTokenConfig(poolConfig.base), baseShare),
+      stringToAnchorBn(this.getTokenConfig(poolConfig.quote), quoteShare),
+      farmName,
+    );
+    return this.send(transaction, signers);
+  }
+
+  // unstake liquidity provider shares from a farm of the pool
+  async unstake(
+    pool: string,
+    baseShare: string,
+    quoteShare: string,
+    farmName: string = "default",
+  ): Promise<TransactionSignature> {
+    const poolConfig = this.getPoolConfig(pool);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+
+    const { transaction, signers } = await createWithdrawFromFarmTransaction(
+      poolConfig,
+      this.program,
+      swapInfo,
+      this.wallet.publicKey,
+      stringToAnchorBn(this.getTokenConfig(poolConfig.base), baseShare),
+      stringToAnchorBn(this.getTokenConfig(poolConfig.quote), quoteShare),
+      farmName,
+    );
+    return this.send(transaction, signers);
+  }
+
+  /**
+   * claim the farm rewards of a pool's farm if the pool is set,
+   * otherwise claim all the owed trade and referral rewards of the deltafi user
+   * @returns signature of the claim transaction, null if the deltafi user has nothing to claim
+   */
+  async claim(pool?: string, farmName: string = "default"): Promise<TransactionSignature | null> {
+    if (pool) {
+      const { transaction, signers } = await createClaimFarmRewardsTransaction(
+        this.deployConfig,
+        this.getPoolConfig(pool),
+        this.program,
+        this.wallet.publicKey,
+        farmName,
+      );
+      return this.send(transaction, signers);
+    }
+
+    const claimAllRewards = await createClaimAllRewardsTransaction(
+      this.deployConfig,
+      this.program,
+      await this.getDeltafiUser(),
+      this.wallet.publicKey,
+    );
+    if (!claimAllRewards) {
+      return null;
+    }
+    return this.send(claimAllRewards.transaction, claimAllRewards.signers);
+  }
+
+  // shares of the wallet's liquidity position of a pool, in UI unit
+  async getShares(pool: string): Promise<{
+    baseShare: string;
+    quoteShare: string;
+    stakedBaseShare: string;
+    stakedQuoteShare: string;
+  } | null> {
+    const poolConfig = this.getPoolConfig(pool);
+    const lpUser = await this.getLiquidityProvider(poolConfig);
+    if (!lpUser) {
+      return null;
+    }
+    const baseTokenConfig = this.getTokenConfig(poolConfig.base);
+    const quoteTokenConfig = this.getTokenConfig(poolConfig.quote);
+    return {
+      baseShare: anchorBnToString(baseTokenConfig, lpUser.baseShare),
+      quoteShare: anchorBnToString(quoteTokenConfig, lpUser.quoteShare),
+      stakedBaseShare: anchorBnToString(baseTokenConfig, lpUser.stakedBaseShare),
+      stakedQuoteShare: anchorBnToString(quoteTokenConfig, lpUser.stakedQuoteShare),
+    };
+  }
+
+  // value of the wallet's liquidity position of a pool, with the pyth prices of the pool's tokens
+  // a token without pyth price, e.g. of a serum pool, is valued with the pool's market price
+  async getLiquidityPosition(pool: string): Promise<LiquidityPosition | null> {
+    const poolConfig = this.getPoolConfig(pool);
+    const lpUser = await this.getLiquidityProvider(poolConfig);
+    if (!lpUser) {
+      return null;
+    }
+    const baseTokenConfig = this.getTokenConfig(poolConfig.base);
+    const quoteTokenConfig = this.getTokenConfig(poolConfig.quote);
+    const swapInfo = await this.getSwapInfo(poolConfig);
+    const symbolToPythPriceData = await getSymbolToPythPriceData(this.connection, [
+      baseTokenConfig,
+      quoteTokenConfig,
+    ]);
+    const basePythPrice = symbolToPythPriceData[baseTokenConfig.symbol]?.price;
+    const quotePythPrice = symbolToPythPriceData[quoteTokenConfig.symbol]?.price;
+    if (basePythPrice === undefined && quotePythPrice === undefined) {
+      throw Error("No pyth price of the tokens of pool: " + poolConfig.name);
+    }
+
+    let basePrice: BigNumber;
+    let quotePrice: BigNumber;
+    if (basePythPrice !== undefined && quotePythPrice !== undefined) {
+      basePrice = new BigNumber(basePythPrice);
+      quotePrice = new BigNumber(quotePythPrice);
+    } else {
+      const priceSource = await this.getPriceSource(swapInfo, poolConfig);
+      const { marketPrice } = await priceSource.getMarketPriceTuple(
+        swapInfo,
+        baseTokenConfig,
+        quoteTokenConfig,
+      );
+      basePrice =
+        basePythPrice !== undefined
+          ? new BigNumber(basePythPrice)
+          : new BigNumber(quotePythPrice).multipliedBy(marketPrice);
+      quotePrice =
+        quotePythPrice !== undefined
+          ? new BigNumber(quotePythPrice)
+          : new BigNumber(basePythPrice).dividedBy(marketPrice);
+    }
+
+    return calculateLiquidityPosition(
+      lpUser,
+      swapInfo.poolState,
+      baseTokenConfig,
+      quoteTokenConfig,
+      basePrice,
+      quotePrice,
+    );
+  }
+
+  // shares to withdraw in raw unit, the unstaked shares of the wallet if not given
+  private async getWithdrawShares(
+    poolConfig: PoolConfig,
+    baseShare?: string,
+    quoteShare?: string,
+  ): Promise<{ baseShareBN: BN; quoteShareBN: BN }> {
+    const lpUser = await this.getLiquidityProvider(poolConfig);
+    if (!lpUser) {
+      throw Error("No liquidity position in pool: " + poolConfig.name);
+    }
+    return {
+      baseShareBN: baseShare
+        ? stringToAnchorBn(this.getTokenConfig(poolConfig.base), baseShare)
+        : lpUser.baseShare.sub(lpUser.stakedBaseShare),
+      quoteShareBN: quoteShare
+        ? stringToAnchorBn(this.getTokenConfig(poolConfig.quote), quoteShare)
+        : lpUser.quoteShare.sub(lpUser.stakedQuoteShare),
+    };
+  }
+
+  private getMaxSlippage(): number {
+    return this.options.maxSlippage ?? 0.5;
+  }
+
+  private getMinCoeff(): number {
+    return this.options.minCoeff ?? 0.99;
+  }
+
+  private async getPriceSource(swapInfo: SwapInfo, poolConfig: PoolConfig): Promise<PriceSource> {
+    if (this.options.priceSource) {
+      return this.options.priceSource;
+    }
+    if (swapInfo.swapType.serumSwap) {
+      if (!this.serumProgramId) {
+        const marketConfig = (await this.program.account.marketConfig.fetch(
+          swapInfo.configKey,
+        )) as MarketConfig;
+        this.serumProgramId = marketConfig.serumProgramId;
+      }
+      return createSerumPriceSource(this.connection, this.serumProgramId);
+    }
+    return createPythPriceSource(
+      await getSymbolToPythPriceData(this.connection, [
+        this.getTokenConfig(poolConfig.base),
+        this.getTokenConfig(poolConfig.quote),
+      ]),
+    );
+  }
+
+  // the wallet's associated token account of the token, and the transaction to create it if missing
+  // SOL is wrapped into a temporary token account by the transaction builders instead
+  private async getTokenAccount(tokenConfig: TokenConfig): Promise<{
+    tokenPubkey: PublicKey;
+    transaction: Transaction | undefined;
+  }> {
+    const { associatedTokenPubkey, transaction } =
+      await getOrCreateAssociatedTokenAccountTransaction(
+        this.connection,
+        new PublicKey(tokenConfig.mint),
+        this.wallet.publicKey,
+      );
+    return {
+      tokenPubkey: associatedTokenPubkey,
+      transaction: tokenConfig.symbol === "SOL" ? undefined : transaction,
+    };
+  }
+
+  private async send(transaction: Transaction, signers: Signer[]): Promise<TransactionSignature> {
+    return this.provider.sendAndConfirm(transaction, signers);
+  }
+}
@@ -0,0 +1,266 @@
+import * as https from "https";
+import { PublicKey } from "@solana/web3.js";
+import fullDeployConfigV2 from "./fullDeployConfigV2.json";
+import { DeploymentConfig, PoolConfig, TokenConfig } from "../calculations/types";
+
+export const DEPLOYMENT_CONFIG_API_URL = "https://app.deltafi.trade/api/config";
+
+export type DeploymentConfigLoadOptions = {
+  // url of the remote config, the deltafi public api by default
+  url?: string;
+  // how long a fetched remote config is reused, 5 minutes by default
+  cacheTtlMs?: number;
+  // how long to wait for the remote config before falling back, 10 seconds by default
+  timeoutMs?: number;
+};
+
+export type DeploymentConfigLoadResult = {
+  deploymentConfig: DeploymentConfig;
+  // remote if the remote config is fetched and valid, otherwise the bundled config is used
+  source: "remote" | "bundled";
+  // names of the pools in the loaded config but not in the bundled config, and the other way round
+  addedPools: string[];
+  removedPools: string[];
+  // why the remote config is not used, only set when falling back to the bundled config
+  error?: string;
+};
+
+const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// fetched remote configs by url
+const urlToRemoteConfigCache: Record<string, { fetchedAt: number; configs: Record<string, any> }> =
+  {};
+
+function isPublicKey(value: any): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    new PublicKey(value);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * check the shape of a deployment config and the consistency of its pools and tokens
+ * - all the addresses are valid public keys
+ * - token symbols and pool names are unique
+ * - the base and quote tokens of the pools are in the token list, with the same mints
+ * @param config deployment config from the bundled file or the remote api
+ * @returns the config as the typed deployment config
+ */
+export function validateDeploymentConfig(config: any): DeploymentConfig {
+  const errors: string[] = [];
+  if (!config || typeof config !== "object") {
+    throw Error("Invalid deployment config: not an object");
+  }
+
+  if (typeof config.network !== "string") {
+    errors.push("network is missing");
+  }
+  ["deltafiMint", "deltafiToken", "pythProgramId", "programId", "marketConfig"].forEach((key) => {
+    if (!isPublicKey(config[key])) {
+      errors.push(`${key} is not a public key`);
+    }
+  });
+
+  const tokenInfoList: TokenConfig[] = Array.isArray(config.tokenInfoList)
+    ? config.tokenInfoList
+    : [];
+  if (!Array.isArray(config.tokenInfoList)) {
+    errors.push("tokenInfoList is not a list");
+  }
+  const symbolToTokenConfig: Record<string, TokenConfig> = {};
+  tokenInfoList.forEach((tokenConfig, i) => {
+    const tokenName = tokenConfig?.symbol || `tokenInfoList[${i}]`;
+    if (typeof tokenConfig?.symbol !== "string") {
+      errors.push(`${tokenName}: symbol is missing`);
+    } else if (symbolToTokenConfig[tokenConfig.symbol]) {
+      errors.push(`${tokenName}: duplicated symbol`);
+    } else {
+      symbolToTokenConfig[tokenConfig.symbol] = tokenConfig;
+    }
+    if (!isPublicKey(tokenConfig?.mint)) {
+      errors.push(`${tokenName}: mint is not a public key`);
+    }
+    if (!Number.isInteger(tokenConfig?.decimals) || tokenConfig.decimals < 0) {
+      errors.push(`${tokenName}: decimals is not a non-negative integer`);
+    }
+    if (tokenConfig?.pyth && !isPublicKey(tokenConfig.pyth.price)) {
+      errors.push(`${tokenName}: pyth price is not a public key`);
+    }
+  });
+
+  const poolInfoList: PoolConfig[] = Array.isArray(config.poolInfoList) ? config.poolInfoList : [];
+  if (!Array.isArray(config.poolInfoList)) {
+    errors.push("poolInfoList is not a list");
+  }
+  const poolNames = new Set<string>();
+  poolInfoList.forEach((poolConfig, i) => {
+    const poolName = poolConfig?.name || `poolInfoList[${i}]`;
+    if (typeof poolConfig?.name !== "string") {
+      errors.push(`${poolName}: name is missing`);
+    } else if (poolNames.has(poolConfig.name)) {
+      errors.push(`${poolName}: duplicated name`);
+    } else {
+      poolNames.add(poolConfig.name);
+    }
+    if (!isPublicKey(poolConfig?.swapInfo)) {
+      errors.push(`${poolName}: swapInfo is not a public key`);
+    }
+    if (symbolToTokenConfig[poolConfig?.base]?.mint !== poolConfig?.mintBase) {
+      errors.push(`${poolName}: base token ${poolConfig?.base} does not match mintBase`);
+    }
+    if (symbolToTokenConfig[poolConfig?.quote]?.mint !== poolConfig?.mintQuote) {
+      errors.push(`${poolName}: quote token ${poolConfig?.quote} does not match mintQuote`);
+    }
+    if (poolConfig?.farmInfoList !== undefined && !Array.isArray(poolConfig.farmInfoList)) {
+      errors.push(`${poolName}: farmInfoList is not a list`);
+    }
+    (Array.isArray(poolConfig?.farmInfoList) ? poolConfig.farmInfoList : []).forEach(
+      (farmConfig) => {
+        if (typeof farmConfig?.name !== "string" || !isPublicKey(farmConfig?.farmInfo)) {
+          errors.push(`${poolName}: invalid farm ${JSON.stringify(farmConfig)}`);
+        }
+      },
+    );
+  });
+
+  if (errors.length > 0) {
+    throw Error("Invalid deployment config: " + errors.join("; "));
+  }
+  return config as DeploymentConfig;
+}
+
+// get the deployment config bundled with the sdk, it may be out of date
+export function getBundledDeploymentConfig(deployment: string): DeploymentConfig {
+  const deploymentConfig = fullDeployConfigV2[deployment];
+  if (!deploymentConfig) {
+    throw Error("Invalid deployment: " + deployment);
+  }
+  return deploymentConfig;
+}
+
+// get the names of the pools added and removed from the previous config to the next config
+export function getPoolConfigChanges(
+  previousConfig: DeploymentConfig,
+  nextConfig: DeploymentConfig,
+): {
+  addedPools: string[];
+  removedPools: string[];
+} {
+  const previousPoolNames = new Set(previousConfig.poolInfoList.map(({ name }) => name));
+  const nextPoolNames = new Set(nextConfig.poolInfoList.map(({ name }) => name));
+  return {
+    addedPools: nextConfig.poolInfoList
+      .map(({ name }) => name)
+      .filter((name) => !previousPoolNames.has(name)),
+    removedPools: previousConfig.poolInfoList
+      .map(({ name }) => name)
+      .filter((name) => !nextPoolNames.has(name)),
+  };
+}
+
+/**
+ * fetch the deployment configs from the remote api
+ * the response is read to the end before it is parsed, it may come in several chunks
+ * the request is aborted and rejected if the whole response does not arrive in timeoutMs
+ * @param url url of the remote config
+ * @param timeoutMs timeout of the request, 10 seconds by default
+ * @returns deployment configs by deployment name, not validated
+ */
+export function fetchRemoteDeploymentConfigs(
+  url: string = DEPLOYMENT_CONFIG_API_URL,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+): Promise<Record<string, any>> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(Error(`Failed to fetch deployment config: timed out after ${timeoutMs}ms`));
+      req.destroy();
+    }, timeoutMs);
+    const resolveRequest = (configs: Record<string, any>) => {
+      clearTimeout(timer);
+      resolve(configs);
+    };
+    const rejectRequest = (e: Error) => {
+      clearTimeout(timer);
+      reject(e);
+    };
+
+    const req = https.get(url, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        rejectRequest(Error(`Failed to fetch deployment config: status code ${res.statusCode}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+      res.on("end", () => {
+        try {
+          resolveRequest(JSON.parse(Buffer.concat(chunks).toString()));
+        } catch (e) {
+          rejectRequest(Error("Failed to parse deployment config: " + e));
+        }
+      });
+      res.on("error", rejectRequest);
+    });
+    req.on("error", rejectRequest);
+  });
+}
+
+/**
+ * load the deployment config from the remote api, and fall back to the bundled config
+ * if the remote config cannot be fetched or is invalid. throws if there is no config to fall back to
+ * the remote configs are cached by url for cacheTtlMs, and a request slower than timeoutMs falls back
+ * @param deployment deployment name, mainnet-prod, mainnet-test or testnet
+ * @param options url of the remote config, the cache ttl and the request timeout
+ * @returns the loaded config, where it comes from and the pools added or removed from the bundled config
+ */
+export async function loadDeploymentConfig(
+  deployment: string,
+  options: DeploymentConfigLoadOptions = {},
+): Promise<DeploymentConfigLoadResult> {
+  const url = options.url || DEPLOYMENT_CONFIG_API_URL;
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  // deployments that are newer than the sdk have no bundled config
+  const bundledConfig: DeploymentConfig | undefined = fullDeployConfigV2[deployment];
+
+  try {
+    const cache = urlToRemoteConfigCache[url];
+    let configs: Record<string, any>;
+    if (cache && Date.now() - cache.fetchedAt < cacheTtlMs) {
+      configs = cache.configs;
+    } else {
+      configs = await fetchRemoteDeploymentConfigs(url, options.timeoutMs);
+      urlToRemoteConfigCache[url] = { fetchedAt: Date.now(), configs };
+    }
+
+    if (!configs[deployment]) {
+      throw Error("Deployment not in the remote config: " + deployment);
+    }
+    const deploymentConfig = validateDeploymentConfig(configs[deployment]);
+    return {
+      deploymentConfig,
+      source: "remote",
+      ...getPoolConfigChanges(
+        bundledConfig || { ...deploymentConfig, poolInfoList: [] },
+        deploymentConfig,
+      ),
+    };
+  } catch (e) {
+    if (!bundledConfig) {
+      throw Error(`Invalid deployment: ${deployment}, ${e}`);
+    }
+    return {
+      deploymentConfig: bundledConfig,
+      source: "bundled",
+      addedPools: [],
+      removedPools: [],
+      error: String(e),
+    };
+  }
+}
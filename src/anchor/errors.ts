@@ -0,0 +1,638 @@
+import { SimulatedTransactionResponse, TransactionError } from "@solana/web3.js";
+
+/**
+ * base class of the errors of the deltafi dex v2 program
+ * - code: custom program error code, 6000 + index of the error in the idl
+ * - retryable: the error depends on the market or the pool state (prices, reserves, time),
+ *   the same transaction may succeed later or with a fresh quote
+ */
+export class DeltafiProgramError extends Error {
+  readonly code: number;
+  readonly retryable: boolean;
+
+  constructor(code: number, name: string, message: string, retryable: boolean) {
+    super(message);
+    this.code = code;
+    this.name = name;
+    this.retryable = retryable;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class AlreadyInUseError extends DeltafiProgramError {
+  constructor() {
+    super(6000, "AlreadyInUse", "Swap account already in use", false);
+  }
+}
+
+export class InvalidAdminError extends DeltafiProgramError {
+  constructor() {
+    super(6001, "InvalidAdmin", "Address of the admin fee account is incorrect", false);
+  }
+}
+
+export class ActiveTransferError extends DeltafiProgramError {
+  constructor() {
+    super(6002, "ActiveTransfer", "Active admin transfer in progress", false);
+  }
+}
+
+export class NoActiveTransferError extends DeltafiProgramError {
+  constructor() {
+    super(6003, "NoActiveTransfer", "No active admin transfer in progress", false);
+  }
+}
+
+export class AdminDeadlineExceededError extends DeltafiProgramError {
+  constructor() {
+    super(6004, "AdminDeadlineExceeded", "Admin transfer deadline exceeded", false);
+  }
+}
+
+export class UnauthorizedError extends DeltafiProgramError {
+  constructor() {
+    super(6005, "Unauthorized", "Account is not authorized to execute this instruction", false);
+  }
+}
+
+export class InvalidAccountOwnerError extends DeltafiProgramError {
+  constructor() {
+    super(6006, "InvalidAccountOwner", "Input account owner is not the program", false);
+  }
+}
+
+export class InvalidOwnerError extends DeltafiProgramError {
+  constructor() {
+    super(6007, "InvalidOwner", "Input account owner is not the program address", false);
+  }
+}
+
+export class InvalidSignerError extends DeltafiProgramError {
+  constructor() {
+    super(6008, "InvalidSigner", "Input account must be signer", false);
+  }
+}
+
+export class InvalidOutputOwnerError extends DeltafiProgramError {
+  constructor() {
+    super(
+      6009,
+      "InvalidOutputOwner",
+      "Output pool account owner cannot be the program address",
+      false,
+    );
+  }
+}
+
+export class IncorrectSwapAccountError extends DeltafiProgramError {
+  constructor() {
+    super(
+      6010,
+      "IncorrectSwapAccount",
+      "Address of the provided swap token account is incorrect",
+      false,
+    );
+  }
+}
+
+export class InvalidProgramAddressError extends DeltafiProgramError {
+  constructor() {
+    super(
+      6011,
+      "InvalidProgramAddress",
+      "Invalid program address generated from nonce and key",
+      false,
+    );
+  }
+}
+
+export class InvalidCloseAuthorityError extends DeltafiProgramError {
+  constructor() {
+    super(6012, "InvalidCloseAuthority", "Token account has a close authority", false);
+  }
+}
+
+export class InvalidFreezeAuthorityError extends DeltafiProgramError {
+  constructor() {
+    super(6013, "InvalidFreezeAuthority", "Pool token mint has a freeze authority", false);
+  }
+}
+
+export class IncorrectTokenProgramIdError extends DeltafiProgramError {
+  constructor() {
+    super(6014, "IncorrectTokenProgramId", "Incorrect token program ID", false);
+  }
+}
+
+export class IncorrectMintError extends DeltafiProgramError {
+  constructor() {
+    super(6015, "IncorrectMint", "Address of the provided token mint is incorrect", false);
+  }
+}
+
+export class UnexpectedMintError extends DeltafiProgramError {
+  constructor() {
+    super(6016, "UnexpectedMint", "Deserialized account is not an SPL Token mint", false);
+  }
+}
+
+export class RepeatedMintError extends DeltafiProgramError {
+  constructor() {
+    super(6017, "RepeatedMint", "Swap input token accounts have the same mint", false);
+  }
+}
+
+export class ExpectedAccountError extends DeltafiProgramError {
+  constructor() {
+    super(6018, "ExpectedAccount", "Deserialized account is not an SPL Token account", false);
+  }
+}
+
+export class InvalidInstructionError extends DeltafiProgramError {
+  constructor() {
+    super(6019, "InvalidInstruction", "Invalid instruction", false);
+  }
+}
+
+export class InstructionUnpackErrorError extends DeltafiProgramError {
+  constructor() {
+    super(6020, "InstructionUnpackError", "Instruction unpack is failed", false);
+  }
+}
+
+export class EmptyPoolError extends DeltafiProgramError {
+  constructor() {
+    super(6021, "EmptyPool", "Pool token supply is 0", false);
+  }
+}
+
+export class EmptySupplyError extends DeltafiProgramError {
+  constructor() {
+    super(6022, "EmptySupply", "Input token account empty", false);
+  }
+}
+
+export class InvalidSupplyError extends DeltafiProgramError {
+  constructor() {
+    super(6023, "InvalidSupply", "Pool token mint has a non-zero supply", false);
+  }
+}
+
+export class InvalidDelegateError extends DeltafiProgramError {
+  constructor() {
+    super(6024, "InvalidDelegate", "Token account has a delegate", false);
+  }
+}
+
+export class InvalidInputError extends DeltafiProgramError {
+  constructor() {
+    super(6025, "InvalidInput", "Invalid input", false);
+  }
+}
+
+export class IsPausedError extends DeltafiProgramError {
+  constructor() {
+    super(6026, "IsPaused", "Swap pool is paused", true);
+  }
+}
+
+export class NotRentExemptError extends DeltafiProgramError {
+  constructor() {
+    super(6027, "NotRentExempt", "Lamport balance below rent-exempt threshold", false);
+  }
+}
+
+export class CalculationFailureError extends DeltafiProgramError {
+  constructor() {
+    super(6028, "CalculationFailure", "Calculation failure", false);
+  }
+}
+
+export class ExceededSlippageError extends DeltafiProgramError {
+  constructor() {
+    super(6029, "ExceededSlippage", "Swap instruction exceeds desired slippage limit", true);
+  }
+}
+
+export class MismatchedDecimalsError extends DeltafiProgramError {
+  constructor() {
+    super(6030, "MismatchedDecimals", "Token mints must have same decimals", false);
+  }
+}
+
+export class InvalidPythConfigError extends DeltafiProgramError {
+  constructor() {
+    super(6031, "InvalidPythConfig", "Input pyth config is invalid", false);
+  }
+}
+
+export class InsufficientLiquidityError extends DeltafiProgramError {
+  constructor() {
+    super(6032, "InsufficientLiquidity", "Insufficient liquidity available", true);
+  }
+}
+
+export class LiquidityPositionEmptyError extends DeltafiProgramError {
+  constructor() {
+    super(6033, "LiquidityPositionEmpty", "User has no liquidity position", false);
+  }
+}
+
+export class InvalidPositionKeyError extends DeltafiProgramError {
+  constructor() {
+    super(6034, "InvalidPositionKey", "Invalid position key", false);
+  }
+}
+
+export class InvalidClaimTimeError extends DeltafiProgramError {
+  constructor() {
+    super(6035, "InvalidClaimTime", "Invalid claim timestamp", true);
+  }
+}
+
+export class InsufficientClaimAmountError extends DeltafiProgramError {
+  constructor() {
+    super(6036, "InsufficientClaimAmount", "Insufficient claim amount", false);
+  }
+}
+
+export class InsufficientFundsError extends DeltafiProgramError {
+  constructor() {
+    super(6037, "InsufficientFunds", "Insufficient funds", false);
+  }
+}
+
+export class WithdrawNotEnoughError extends DeltafiProgramError {
+  constructor() {
+    super(6038, "WithdrawNotEnough", "Withdraw not enough", true);
+  }
+}
+
+export class TokenInitializeMintFailedError extends DeltafiProgramError {
+  constructor() {
+    super(6039, "TokenInitializeMintFailed", "Mint initialization failed", false);
+  }
+}
+
+export class InvalidSlopeError extends DeltafiProgramError {
+  constructor() {
+    super(6040, "InvalidSlope", "Invalid slope", false);
+  }
+}
+
+export class InvalidAccountError extends DeltafiProgramError {
+  constructor() {
+    super(6041, "InvalidAccount", "Invalid account", false);
+  }
+}
+
+export class TokenTransferFailedError extends DeltafiProgramError {
+  constructor() {
+    super(6042, "TokenTransferFailed", "Token transfer failed", false);
+  }
+}
+
+export class TokenMintToFailedError extends DeltafiProgramError {
+  constructor() {
+    super(6043, "TokenMintToFailed", "Token mint to failed", false);
+  }
+}
+
+export class TokenBurnFailedError extends DeltafiProgramError {
+  constructor() {
+    super(6044, "TokenBurnFailed", "Token burn failed", false);
+  }
+}
+
+export class InvalidPythPriceError extends DeltafiProgramError {
+  constructor() {
+    super(6045, "InvalidPythPrice", "Invalid pyth price", true);
+  }
+}
+
+export class UnstablePythPriceError extends DeltafiProgramError {
+  constructor() {
+    super(6046, "UnstablePythPrice", "Unstable pyth price", true);
+  }
+}
+
+export class InconfidentPythPriceError extends DeltafiProgramError {
+  constructor() {
+    super(6047, "InconfidentPythPrice", "Pyth confidence interval is too large", true);
+  }
+}
+
+export class IndexOutOfRangeError extends DeltafiProgramError {
+  constructor() {
+    super(6048, "IndexOutOfRange", "Index out of range", false);
+  }
+}
+
+export class InvalidMarketConfigError extends DeltafiProgramError {
+  constructor() {
+    super(6049, "InvalidMarketConfig", "Input market config is invalid", false);
+  }
+}
+
+export class InvalidPythProgramIdError extends DeltafiProgramError {
+  constructor() {
+    super(6050, "InvalidPythProgramId", "Pyth program id is invalid", false);
+  }
+}
+
+export class PotentialFlashLoanAttackError extends DeltafiProgramError {
+  constructor() {
+    super(6051, "PotentialFlashLoanAttack", "Potential Flash Loan Attack", true);
+  }
+}
+
+export class IncorrectSwapTypeError extends DeltafiProgramError {
+  constructor() {
+    super(6052, "IncorrectSwapType", "Incorrect swap type", false);
+  }
+}
+
+export class IncorrectStablePriceError extends DeltafiProgramError {
+  constructor() {
+    super(6053, "IncorrectStablePrice", "Incorrect stable price", false);
+  }
+}
+
+export class InvalidTokenDecimalsError extends DeltafiProgramError {
+  constructor() {
+    super(6054, "InvalidTokenDecimals", "Invalid token decimals", false);
+  }
+}
+
+export class InconsistentPoolStateError extends DeltafiProgramError {
+  constructor() {
+    super(6055, "InconsistentPoolState", "Inconsistent pool state", false);
+  }
+}
+
+export class InvalidReferrerError extends DeltafiProgramError {
+  constructor() {
+    super(6056, "InvalidReferrer", "Invalid referrer address", false);
+  }
+}
+
+export class InconsistentInitialPoolTokenBalanceError extends DeltafiProgramError {
+  constructor() {
+    super(
+      6057,
+      "InconsistentInitialPoolTokenBalance",
+      "Inconsistent initial pool token balance",
+      false,
+    );
+  }
+}
+
+export class ExceededSwapOutAmountError extends DeltafiProgramError {
+  constructor() {
+    super(6058, "ExceededSwapOutAmount", "Swap out amount exceeds the limit", true);
+  }
+}
+
+export class AlreadyInitializedError extends DeltafiProgramError {
+  constructor() {
+    super(6059, "AlreadyInitialized", "Already initialized", false);
+  }
+}
+
+export class NotInitializedError extends DeltafiProgramError {
+  constructor() {
+    super(6060, "NotInitialized", "Not initialized", false);
+  }
+}
+
+export class InvalidSwapConfigError extends DeltafiProgramError {
+  constructor() {
+    super(6061, "InvalidSwapConfig", "Invalid swap config", false);
+  }
+}
+
+export class InvalidFarmConfigError extends DeltafiProgramError {
+  constructor() {
+    super(6062, "InvalidFarmConfig", "Invalid farm config", false);
+  }
+}
+
+export class InsufficientPoolReserveError extends DeltafiProgramError {
+  constructor() {
+    super(6063, "InsufficientPoolReserve", "Insufficient pool reserve", true);
+  }
+}
+
+export class StableSwapPriceDiffLimitExceededError extends DeltafiProgramError {
+  constructor() {
+    super(6064, "StableSwapPriceDiffLimitExceeded", "stable swap price diff limit exceeded", true);
+  }
+}
+
+export class InvalidTimestampError extends DeltafiProgramError {
+  constructor() {
+    super(6065, "InvalidTimestamp", "Invalid timestamp", false);
+  }
+}
+
+export class InvalidSerumDataError extends DeltafiProgramError {
+  constructor() {
+    super(6066, "InvalidSerumData", "Invalid serum market data", false);
+  }
+}
+
+export class InvalidPythPriceAccountError extends DeltafiProgramError {
+  constructor() {
+    super(6067, "InvalidPythPriceAccount", "Invalid pyth price account", false);
+  }
+}
+
+export class InvalidSerumMarketTokenRatioError extends DeltafiProgramError {
+  constructor() {
+    super(6068, "InvalidSerumMarketTokenRatio", "Serum market token ratio exceeds the limit", true);
+  }
+}
+
+export class DepeggedQuotePriceError extends DeltafiProgramError {
+  constructor() {
+    super(6069, "DepeggedQuotePrice", "Quote token price is depegged", true);
+  }
+}
+
+export class InvalidWithdrawalAmountError extends DeltafiProgramError {
+  constructor() {
+    super(6070, "InvalidWithdrawalAmount", "Invalid withdrawal amount", false);
+  }
+}
+
+export class InvalidStakingAmountError extends DeltafiProgramError {
+  constructor() {
+    super(6071, "InvalidStakingAmount", "Invalid staking amount", false);
+  }
+}
+
+export class RebateNotEnabledError extends DeltafiProgramError {
+  constructor() {
+    super(6072, "RebateNotEnabled", "Rebate not enabled", false);
+  }
+}
+
+const CODE_TO_ERROR_CLASS: Record<number, new () => DeltafiProgramError> = {
+  6000: AlreadyInUseError,
+  6001: InvalidAdminError,
+  6002: ActiveTransferError,
+  6003: NoActiveTransferError,
+  6004: AdminDeadlineExceededError,
+  6005: UnauthorizedError,
+  6006: InvalidAccountOwnerError,
+  6007: InvalidOwnerError,
+  6008: InvalidSignerError,
+  6009: InvalidOutputOwnerError,
+  6010: IncorrectSwapAccountError,
+  6011: InvalidProgramAddressError,
+  6012: InvalidCloseAuthorityError,
+  6013: InvalidFreezeAuthorityError,
+  6014: IncorrectTokenProgramIdError,
+  6015: IncorrectMintError,
+  6016: UnexpectedMintError,
+  6017: RepeatedMintError,
+  6018: ExpectedAccountError,
+  6019: InvalidInstructionError,
+  6020: InstructionUnpackErrorError,
+  6021: EmptyPoolError,
+  6022: EmptySupplyError,
+  6023: InvalidSupplyError,
+  6024: InvalidDelegateError,
+  6025: InvalidInputError,
+  6026: IsPausedError,
+  6027: NotRentExemptError,
+  6028: CalculationFailureError,
+  6029: ExceededSlippageError,
+  6030: MismatchedDecimalsError,
+  6031: InvalidPythConfigError,
+  6032: InsufficientLiquidityError,
+  6033: LiquidityPositionEmptyError,
+  6034: InvalidPositionKeyError,
+  6035: InvalidClaimTimeError,
+  6036: InsufficientClaimAmountError,
+  6037: InsufficientFundsError,
+  6038: WithdrawNotEnoughError,
+  6039: TokenInitializeMintFailedError,
+  6040: InvalidSlopeError,
+  6041: InvalidAccountError,
+  6042: TokenTransferFailedError,
+  6043: TokenMintToFailedError,
+  6044: TokenBurnFailedError,
+  6045: InvalidPythPriceError,
+  6046: UnstablePythPriceError,
+  6047: InconfidentPythPriceError,
+  6048: IndexOutOfRangeError,
+  6049: InvalidMarketConfigError,
+  6050: InvalidPythProgramIdError,
+  6051: PotentialFlashLoanAttackError,
+  6052: IncorrectSwapTypeError,
+  6053: IncorrectStablePriceError,
+  6054: InvalidTokenDecimalsError,
+  6055: InconsistentPoolStateError,
+  6056: InvalidReferrerError,
+  6057: InconsistentInitialPoolTokenBalanceError,
+  6058: ExceededSwapOutAmountError,
+  6059: AlreadyInitializedError,
+  6060: NotInitializedError,
+  6061: InvalidSwapConfigError,
+  6062: InvalidFarmConfigError,
+  6063: InsufficientPoolReserveError,
+  6064: StableSwapPriceDiffLimitExceededError,
+  6065: InvalidTimestampError,
+  6066: InvalidSerumDataError,
+  6067: InvalidPythPriceAccountError,
+  6068: InvalidSerumMarketTokenRatioError,
+  6069: DepeggedQuotePriceError,
+  6070: InvalidWithdrawalAmountError,
+  6071: InvalidStakingAmountError,
+  6072: RebateNotEnabledError,
+};
+
+// get the deltafi program error of a custom program error code, null for unknown codes
+export function getDeltafiProgramError(code: number): DeltafiProgramError | null {
+  const ErrorClass = CODE_TO_ERROR_CLASS[code];
+  return ErrorClass ? new ErrorClass() : null;
+}
+
+// custom program error in the log or the error message of a failed transaction, in hex
+const CUSTOM_PROGRAM_ERROR_REGEX = /custom program error: (0x[0-9a-fA-F]+)/;
+// anchor error log, with the error number in decimal
+const ANCHOR_ERROR_NUMBER_REGEX = /Error Number: (\d+)/;
+
+// find the first deltafi program error code in the program logs
+export function getDeltafiProgramErrorCodeFromLogs(logs: string[]): number | null {
+  for (const log of logs || []) {
+    const code = getDeltafiProgramErrorCodeFromMessage(log);
+    if (code !== null) {
+      return code;
+    }
+  }
+  return null;
+}
+
+function getDeltafiProgramErrorCodeFromMessage(message: string): number | null {
+  const customProgramErrorMatch = CUSTOM_PROGRAM_ERROR_REGEX.exec(message || "");
+  const code = customProgramErrorMatch
+    ? parseInt(customProgramErrorMatch[1], 16)
+    : Number(ANCHOR_ERROR_NUMBER_REGEX.exec(message || "")?.[1]);
+  return CODE_TO_ERROR_CLASS[code] ? code : null;
+}
+
+/**
+ * decode the deltafi program error of a failed send, such as SendTransactionError,
+ * from its program logs or its message
+ * @param error error thrown by sending the transaction
+ * @returns the typed deltafi program error, null if the failure is not a deltafi program error
+ */
+export function decodeDeltafiProgramError(error: any): DeltafiProgramError | null {
+  if (error instanceof DeltafiProgramError) {
+    return error;
+  }
+
+  const code =
+    getDeltafiProgramErrorCodeFromLogs(error?.logs) ??
+    getDeltafiProgramErrorCodeFromMessage(error?.message);
+  return code === null ? null : getDeltafiProgramError(code);
+}
+
+// instruction error of a transaction error, with the index of the failed instruction
+// and its error, such as { Custom: 6000 } for a custom program error
+type InstructionError = { InstructionError: [number, { Custom?: number } | string] };
+
+function isInstructionError(err: TransactionError): err is InstructionError {
+  const instructionError = typeof err === "object" && err !== null && err["InstructionError"];
+  return (
+    Array.isArray(instructionError) &&
+    instructionError.length === 2 &&
+    typeof instructionError[0] === "number"
+  );
+}
+
+/**
+ * decode the deltafi program error of a transaction simulation
+ * @param simulationResult value of the simulateTransaction response
+ * @returns the typed deltafi program error, null if the simulation has no deltafi program error
+ */
+export function decodeDeltafiSimulationError(
+  simulationResult: SimulatedTransactionResponse,
+): DeltafiProgramError | null {
+  if (!simulationResult?.err) {
+    return null;
+  }
+
+  if (isInstructionError(simulationResult.err)) {
+    const [, error] = simulationResult.err.InstructionError;
+    const customCode = typeof error === "object" && error !== null ? error.Custom : undefined;
+    if (customCode !== undefined && CODE_TO_ERROR_CLASS[customCode]) {
+      return getDeltafiProgramError(customCode);
+    }
+  }
+
+  const code = getDeltafiProgramErrorCodeFromLogs(simulationResult.logs);
+  return code === null ? null : getDeltafiProgramError(code);
+}
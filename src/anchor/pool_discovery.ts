@@ -0,0 +1,170 @@
+import { PublicKey } from "@solana/web3.js";
+import { FarmInfo, SwapInfo } from "./type_definitions";
+import { DeploymentConfig, FarmConfigEntry, PoolConfig, TokenConfig } from "../calculations/types";
+
+// offsets of configKey in the account data, after the 8 bytes anchor discriminator
+// SwapInfo: isInitialized (1) + bump (1) + seed (32) + swapType (1)
+// FarmInfo: bump (1) + seed (32)
+const SWAP_INFO_CONFIG_KEY_OFFSET = 8 + 1 + 1 + 32 + 1;
+const FARM_INFO_CONFIG_KEY_OFFSET = 8 + 1 + 32;
+
+export type DiscoveredPool = {
+  poolConfig: PoolConfig;
+  swapInfo: SwapInfo;
+  swapType: "normalSwap" | "stableSwap" | "serumSwap";
+};
+
+export type PoolDiscoveryResult = {
+  pools: DiscoveredPool[];
+  // deployment config compatible pool and token lists
+  poolInfoList: PoolConfig[];
+  tokenInfoList: TokenConfig[];
+};
+
+function getSwapTypeName(swapInfo: SwapInfo): DiscoveredPool["swapType"] {
+  if (swapInfo.swapType.normalSwap) {
+    return "normalSwap";
+  } else if (swapInfo.swapType.stableSwap) {
+    return "stableSwap";
+  }
+  return "serumSwap";
+}
+
+// token config of a mint that is not in the deployment config, the mint address is used as symbol
+function createDiscoveredTokenConfig(
+  mint: PublicKey,
+  decimals: number,
+  pythPrice: PublicKey | null,
+): TokenConfig {
+  return {
+    name: mint.toBase58(),
+    symbol: mint.toBase58(),
+    mint: mint.toBase58(),
+    decimals,
+    logoURI: "",
+    pyth: pythPrice ? { price: pythPrice.toBase58(), product: "", productName: "" } : undefined,
+  };
+}
+
+/**
+ * find all the pools and farms of a market config with getProgramAccounts, without any config
+ * pools and tokens in the deployment config keep their names and symbols,
+ * new tokens use the mint address as symbol, and new farms use the farm info address as name
+ * @param program deltafi program
+ * @param marketConfig market config the pools and farms belong to
+ * @param deployConfig known deployment config used for the names, optional
+ * @returns discovered pools, and the pool and token lists in the deployment config format
+ */
+export async function discoverPools(
+  program: any,
+  marketConfig: PublicKey,
+  deployConfig?: DeploymentConfig,
+): Promise<PoolDiscoveryResult> {
+  const swapInfoAccounts: { publicKey: PublicKey; account: SwapInfo }[] =
+    await program.account.swapInfo.all([
+      { memcmp: { offset: SWAP_INFO_CONFIG_KEY_OFFSET, bytes: marketConfig.toBase58() } },
+    ]);
+  const farmInfoAccounts: { publicKey: PublicKey; account: FarmInfo }[] =
+    await program.account.farmInfo.all([
+      { memcmp: { offset: FARM_INFO_CONFIG_KEY_OFFSET, bytes: marketConfig.toBase58() } },
+    ]);
+
+  const knownPoolConfigs: PoolConfig[] = deployConfig?.poolInfoList || [];
+  const mintToTokenConfig: Record<string, TokenConfig> = {};
+  (deployConfig?.tokenInfoList || []).forEach((tokenConfig) => {
+    mintToTokenConfig[tokenConfig.mint] = tokenConfig;
+  });
+
+  const getTokenConfig = (mint: PublicKey, decimals: number, pythPrice: PublicKey | null) => {
+    if (!mintToTokenConfig[mint.toBase58()]) {
+      mintToTokenConfig[mint.toBase58()] = createDiscoveredTokenConfig(mint, decimals, pythPrice);
+    }
+    return mintToTokenConfig[mint.toBase58()];
+  };
+
+  const usedPoolNames = new Set<string>(knownPoolConfigs.map(({ name }) => name));
+  const pools: DiscoveredPool[] = swapInfoAccounts
+    .filter(({ account }) => account.isInitialized)
+    .map(({ publicKey, account: swapInfo }) => {
+      const swapType = getSwapTypeName(swapInfo);
+      const baseTokenConfig = getTokenConfig(
+        swapInfo.mintBase,
+        swapInfo.mintBaseDecimals,
+        swapType === "serumSwap" ? null : swapInfo.pythPriceBase,
+      );
+      const quoteTokenConfig = getTokenConfig(
+        swapInfo.mintQuote,
+        swapInfo.mintQuoteDecimals,
+        swapType === "serumSwap" ? null : swapInfo.pythPriceQuote,
+      );
+
+      const knownPoolConfig = knownPoolConfigs.find(
+        ({ swapInfo: swapInfoAddress }) => swapInfoAddress === publicKey.toBase58(),
+      );
+      // pools of the same token pair are told apart by their swap info address
+      let name = knownPoolConfig?.name || `${baseTokenConfig.symbol}-${quoteTokenConfig.symbol}`;
+      if (!knownPoolConfig && usedPoolNames.has(name)) {
+        name = `${name}-${publicKey.toBase58()}`;
+      }
+      usedPoolNames.add(name);
+
+      const farmInfoList: FarmConfigEntry[] = farmInfoAccounts
+        .filter(({ account }) => account.swapKey.equals(publicKey))
+        .map(({ publicKey: farmInfo }) => ({
+          name:
+            knownPoolConfig?.farmInfoList?.find(
+              ({ farmInfo: farmInfoAddress }) => farmInfoAddress === farmInfo.toBase58(),
+            )?.name || farmInfo.toBase58(),
+          farmInfo: farmInfo.toBase58(),
+        }));
+
+      return {
+        poolConfig: {
+          name,
+          base: baseTokenConfig.symbol,
+          quote: quoteTokenConfig.symbol,
+          mintBase: swapInfo.mintBase.toBase58(),
+          mintQuote: swapInfo.mintQuote.toBase58(),
+          swapInfo: publicKey.toBase58(),
+          farmInfoList,
+        },
+        swapInfo,
+        swapType,
+      };
+    });
+
+  const poolMints = new Set<string>();
+  pools.forEach(({ poolConfig }) => {
+    poolMints.add(poolConfig.mintBase);
+    poolMints.add(poolConfig.mintQuote);
+  });
+
+  return {
+    pools,
+    poolInfoList: pools.map(({ poolConfig }) => poolConfig),
+    tokenInfoList: Object.values(mintToTokenConfig).filter(({ mint }) => poolMints.has(mint)),
+  };
+}
+
+/**
+ * add the discovered pools and tokens that are not in the deployment config to the config
+ * @returns a new deployment config, the given config is not modified
+ */
+export function mergeDiscoveredPools(
+  deployConfig: DeploymentConfig,
+  discoveryResult: PoolDiscoveryResult,
+): DeploymentConfig {
+  const knownSwapInfos = new Set(deployConfig.poolInfoList.map(({ swapInfo }) => swapInfo));
+  const knownMints = new Set(deployConfig.tokenInfoList.map(({ mint }) => mint));
+  return {
+    ...deployConfig,
+    poolInfoList: [
+      ...deployConfig.poolInfoList,
+      ...discoveryResult.poolInfoList.filter(({ swapInfo }) => !knownSwapInfos.has(swapInfo)),
+    ],
+    tokenInfoList: [
+      ...deployConfig.tokenInfoList,
+      ...discoveryResult.tokenInfoList.filter(({ mint }) => !knownMints.has(mint)),
+    ],
+  };
+}
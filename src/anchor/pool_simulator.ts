@@ -0,0 +1,588 @@
+import BigNumber from "bignumber.js";
+import { BN } from "@project-serum/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { LiquidityProvider, PoolState, SwapDirection, SwapInfo } from "./type_definitions";
+import {
+  EmptyPoolError,
+  ExceededSlippageError,
+  ExceededSwapOutAmountError,
+  InsufficientLiquidityError,
+  InsufficientPoolReserveError,
+  InvalidInputError,
+  InvalidSerumMarketTokenRatioError,
+  InvalidWithdrawalAmountError,
+  IsPausedError,
+  LiquidityPositionEmptyError,
+  NotInitializedError,
+  StableSwapPriceDiffLimitExceededError,
+  WithdrawNotEnoughError,
+} from "./errors";
+import {
+  calculateRawTradeReward,
+  checkIfReserveIsSufficient,
+  checkIfReserveIsWithinSerumTokenRatioLimit,
+  CurveEngine,
+  getNormalizedReserves,
+  getSwapOutAmountSellBase,
+  getSwapOutAmountSellQuote,
+  isSwapOutAmountExceeded,
+  normalizeMarketPriceWithDecimals,
+} from "../calculations/swapOutAmount";
+import {
+  calculateWithdrawFees,
+  calculateWithdrawFromSharesAndBalances,
+  splitByRatio,
+} from "../calculations/calculation";
+import { WAD } from "../calculations/utils";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const SECONDS_PER_WEEK = 7 * SECONDS_PER_DAY;
+
+export type PoolSimulatorOptions = {
+  // address of the pool, recorded in the simulated liquidity providers
+  swapInfoPubkey?: PublicKey;
+  // engine of the curve calculations, float by default
+  curveEngine?: CurveEngine;
+  // unix timestamp of the simulated clock, the system time by default
+  getUnixTimestamp?: () => number;
+};
+
+export type SimulatedSwapResult = {
+  amountIn: BN;
+  // amount transferred to the user, after the trade fee
+  amountOut: BN;
+  tradeFee: BN;
+  adminFee: BN;
+};
+
+export type SimulatedDepositResult = {
+  // amounts taken from the user, the residual of the amounts out of the pool ratio is not taken
+  baseAmount: BN;
+  quoteAmount: BN;
+  baseShare: BN;
+  quoteShare: BN;
+};
+
+export type SimulatedWithdrawResult = {
+  baseShare: BN;
+  quoteShare: BN;
+  // amounts transferred to the user, after the withdraw fee
+  baseAmount: BN;
+  quoteAmount: BN;
+  baseWithdrawFee: BN;
+  quoteWithdrawFee: BN;
+  baseAdminFee: BN;
+  quoteAdminFee: BN;
+};
+
+export type PoolSimulator = {
+  // copy of the simulated swap info
+  getSwapInfo: () => SwapInfo;
+  // copy of the owner's simulated liquidity provider, null if the owner has not deposited
+  getLiquidityProvider: (owner: PublicKey) => LiquidityProvider | null;
+  setLiquidityProvider: (liquidityProvider: LiquidityProvider) => void;
+  // market price is basePrice / quotePrice, low and high prices are the confidence interval bounds
+  setMarketPrice: (marketPrice: BigNumber, lowPrice?: BigNumber, highPrice?: BigNumber) => void;
+  swap: (swapDirection: SwapDirection, amountIn: BN, minAmountOut: BN) => SimulatedSwapResult;
+  deposit: (
+    owner: PublicKey,
+    baseAmount: BN,
+    quoteAmount: BN,
+    minBaseShare: BN,
+    minQuoteShare: BN,
+  ) => SimulatedDepositResult;
+  withdraw: (
+    owner: PublicKey,
+    baseShare: BN,
+    quoteShare: BN,
+    minBaseAmount: BN,
+    minQuoteAmount: BN,
+  ) => SimulatedWithdrawResult;
+};
+
+function toBigNumber(value: BN): BigNumber {
+  return new BigNumber(value.toString());
+}
+
+function toBN(value: BigNumber): BN {
+  return new BN(value.integerValue(BigNumber.ROUND_FLOOR).toFixed(0));
+}
+
+// amount * numerator / denominator rounded down, fees with a zero denominator are disabled
+function mulDivFloor(amount: BN, numerator: number, denominator: number): BN {
+  if (denominator === 0) {
+    return new BN(0);
+  }
+  return amount.mul(new BN(numerator)).div(new BN(denominator));
+}
+
+// copy the BN fields so the simulated state never shares objects with the caller
+function clonePoolState(poolState: PoolState): PoolState {
+  const clonedPoolState = { ...poolState };
+  Object.keys(clonedPoolState).forEach((key) => {
+    if (BN.isBN(clonedPoolState[key])) {
+      clonedPoolState[key] = clonedPoolState[key].clone();
+    }
+  });
+  return clonedPoolState;
+}
+
+function cloneLiquidityProvider(liquidityProvider: LiquidityProvider): LiquidityProvider {
+  return {
+    ...liquidityProvider,
+    baseShare: liquidityProvider.baseShare.clone(),
+    quoteShare: liquidityProvider.quoteShare.clone(),
+    stakedBaseShare: liquidityProvider.stakedBaseShare.clone(),
+    stakedQuoteShare: liquidityProvider.stakedQuoteShare.clone(),
+  };
+}
+
+/**
+ * in-memory stand-in of a deltafi pool, for strategies and integration tests without a validator
+ * swaps, deposits and withdrawals are applied with the sdk's curve functions to the simulated
+ * pool state and liquidity providers, and rejected with the errors of the program
+ * - swap: the output reserve pays the amount out and the admin fee, the lp fee stays in the pool
+ *   and is added to the output target reserve. traded volume counters and the accumulated
+ *   trade reward are updated
+ * - deposit: the amounts are split by the pool ratio, shares = supply * amount / normalized reserve
+ *   the initial deposit into a pool without supply mints shares 1:1 with the amounts
+ *   and sets the target reserves to the reserves
+ * - withdraw: withdraw fee is charged on the withdrawn amounts, the admin part leaves the pool
+ *   net amounts below the min amounts are rejected with WithdrawNotEnough
+ * the market price has to be set before any operation
+ * @param swapInfo initial state of the pool, it is copied and not modified
+ * @param options curve engine and clock of the simulator
+ * @returns pool simulator
+ */
+export function createPoolSimulator(
+  swapInfo: SwapInfo,
+  options: PoolSimulatorOptions = {},
+): PoolSimulator {
+  const curveEngine: CurveEngine = options.curveEngine || "float";
+  const getUnixTimestamp = options.getUnixTimestamp || (() => Math.floor(Date.now() / 1000));
+
+  const simulatedSwapInfo: SwapInfo = {
+    ...swapInfo,
+    poolState: clonePoolState(swapInfo.poolState),
+  };
+  const poolState: PoolState = simulatedSwapInfo.poolState;
+  const swapConfig = simulatedSwapInfo.swapConfig;
+  const ownerToLiquidityProvider: Record<string, LiquidityProvider> = {};
+
+  let marketPrice: BigNumber | null = null;
+  let lowPrice: BigNumber | null = null;
+  let highPrice: BigNumber | null = null;
+
+  const normalizePrice = (price: BigNumber) =>
+    normalizeMarketPriceWithDecimals(
+      price,
+      simulatedSwapInfo.mintBaseDecimals,
+      simulatedSwapInfo.mintQuoteDecimals,
+    );
+
+  const checkPoolIsActive = () => {
+    if (!simulatedSwapInfo.isInitialized) {
+      throw new NotInitializedError();
+    }
+    if (swapConfig.isPaused) {
+      throw new IsPausedError();
+    }
+    if (!marketPrice) {
+      throw Error("Market price of the pool simulator is not set");
+    }
+  };
+
+  // roll the daily and weekly traded quote counters over when a new day or week starts
+  const updateTradedVolume = (tradedBase: BN, tradedQuote: BN) => {
+    const currentTimestamp = getUnixTimestamp();
+    const lastTimestamp = poolState.lastUpdateTimestamp.toNumber();
+
+    const currentDay = Math.floor(currentTimestamp / SECONDS_PER_DAY);
+    const lastDay = Math.floor(lastTimestamp / SECONDS_PER_DAY);
+    if (currentDay !== lastDay) {
+      poolState.lastDayTradedQuote =
+        currentDay === lastDay + 1 ? poolState.currentDayTradedQuote : new BN(0);
+      poolState.currentDayTradedQuote = new BN(0);
+    }
+
+    const currentWeek = Math.floor(currentTimestamp / SECONDS_PER_WEEK);
+    const lastWeek = Math.floor(lastTimestamp / SECONDS_PER_WEEK);
+    if (currentWeek !== lastWeek) {
+      poolState.lastWeekTradedQuote =
+        currentWeek === lastWeek + 1 ? poolState.currentWeekTradedQuote : new BN(0);
+      poolState.currentWeekTradedQuote = new BN(0);
+    }
+
+    poolState.totalTradedBase = poolState.totalTradedBase.add(tradedBase);
+    poolState.totalTradedQuote = poolState.totalTradedQuote.add(tradedQuote);
+    poolState.currentDayTradedQuote = poolState.currentDayTradedQuote.add(tradedQuote);
+    poolState.currentWeekTradedQuote = poolState.currentWeekTradedQuote.add(tradedQuote);
+    poolState.lastUpdateTimestamp = new BN(currentTimestamp);
+  };
+
+  const getNormalizedPoolReserves = (baseReserve: BigNumber, quoteReserve: BigNumber) =>
+    getNormalizedReserves(
+      baseReserve,
+      quoteReserve,
+      toBigNumber(poolState.targetBaseReserve),
+      toBigNumber(poolState.targetQuoteReserve),
+      normalizePrice(marketPrice),
+    );
+
+  const swap = (swapDirection: SwapDirection, amountIn: BN, minAmountOut: BN) => {
+    checkPoolIsActive();
+    if (amountIn.lten(0)) {
+      throw new InvalidInputError();
+    }
+    if (
+      simulatedSwapInfo.swapType.stableSwap &&
+      !swapConfig.disableStablePriceDiffCheck &&
+      marketPrice
+        .minus(1)
+        .abs()
+        .isGreaterThan(
+          new BigNumber(swapConfig.maxStablePriceDiffNumerator).dividedBy(
+            swapConfig.maxStablePriceDiffDenominator,
+          ),
+        )
+    ) {
+      throw new StableSwapPriceDiffLimitExceededError();
+    }
+
+    // the confidence interval bounds are used in the direction that is worse for the trader
+    const useConfidenceInterval = swapConfig.enableConfidenceInterval && lowPrice && highPrice;
+    const { outAmount: grossAmountOutBN } = swapDirection.sellBase
+      ? getSwapOutAmountSellBase(
+          simulatedSwapInfo,
+          toBigNumber(amountIn),
+          normalizePrice(useConfidenceInterval ? lowPrice : marketPrice),
+          curveEngine,
+        )
+      : getSwapOutAmountSellQuote(
+          simulatedSwapInfo,
+          toBigNumber(amountIn),
+          normalizePrice(useConfidenceInterval ? highPrice : marketPrice),
+          curveEngine,
+        );
+
+    const grossAmountOut: BN = toBN(grossAmountOutBN);
+    const tradeFee: BN = mulDivFloor(
+      grossAmountOut,
+      swapConfig.tradeFeeNumerator,
+      swapConfig.tradeFeeDenominator,
+    );
+    const adminFee: BN = mulDivFloor(
+      tradeFee,
+      swapConfig.adminTradeFeeNumerator,
+      swapConfig.adminTradeFeeDenominator,
+    );
+    const amountOut: BN = grossAmountOut.sub(tradeFee);
+
+    if (amountOut.lt(minAmountOut)) {
+      throw new ExceededSlippageError();
+    }
+    if (isSwapOutAmountExceeded(simulatedSwapInfo, swapDirection, toBigNumber(grossAmountOut))) {
+      throw new ExceededSwapOutAmountError();
+    }
+
+    const outReserve: BN = swapDirection.sellBase ? poolState.quoteReserve : poolState.baseReserve;
+    const amountLeavingPool: BN = amountOut.add(adminFee);
+    if (amountLeavingPool.gte(outReserve)) {
+      throw new InsufficientLiquidityError();
+    }
+
+    const baseReserveAfter: BN = swapDirection.sellBase
+      ? poolState.baseReserve.add(amountIn)
+      : poolState.baseReserve.sub(amountLeavingPool);
+    const quoteReserveAfter: BN = swapDirection.sellBase
+      ? poolState.quoteReserve.sub(amountLeavingPool)
+      : poolState.quoteReserve.add(amountIn);
+
+    const { normalizedBaseReserve, normalizedQuoteReserve } = getNormalizedPoolReserves(
+      toBigNumber(baseReserveAfter),
+      toBigNumber(quoteReserveAfter),
+    );
+    if (
+      simulatedSwapInfo.swapType.serumSwap &&
+      !checkIfReserveIsWithinSerumTokenRatioLimit(
+        toBigNumber(baseReserveAfter),
+        toBigNumber(quoteReserveAfter),
+        normalizedBaseReserve,
+        normalizedQuoteReserve,
+        swapConfig,
+      )
+    ) {
+      throw new InvalidSerumMarketTokenRatioError();
+    }
+    if (
+      !checkIfReserveIsSufficient(
+        toBigNumber(baseReserveAfter),
+        toBigNumber(quoteReserveAfter),
+        normalizedBaseReserve,
+        normalizedQuoteReserve,
+        swapConfig,
+      )
+    ) {
+      throw new InsufficientPoolReserveError();
+    }
+
+    // the trade reward is calculated from the traded quote amount, before the pool state changes
+    const tradeReward: BN = toBN(
+      calculateRawTradeReward(
+        simulatedSwapInfo,
+        toBigNumber(swapDirection.sellBase ? grossAmountOut : amountIn),
+      ),
+    );
+
+    // the lp fee stays in the pool and belongs to the liquidity providers of the output token
+    const lpFee: BN = tradeFee.sub(adminFee);
+    poolState.baseReserve = baseReserveAfter;
+    poolState.quoteReserve = quoteReserveAfter;
+    poolState.accumulatedTradeReward = poolState.accumulatedTradeReward.add(tradeReward);
+    if (swapDirection.sellBase) {
+      poolState.targetQuoteReserve = poolState.targetQuoteReserve.add(lpFee);
+      updateTradedVolume(amountIn, grossAmountOut);
+    } else {
+      poolState.targetBaseReserve = poolState.targetBaseReserve.add(lpFee);
+      updateTradedVolume(grossAmountOut, amountIn);
+    }
+
+    return { amountIn, amountOut, tradeFee, adminFee };
+  };
+
+  const deposit = (
+    owner: PublicKey,
+    baseAmount: BN,
+    quoteAmount: BN,
+    minBaseShare: BN,
+    minQuoteShare: BN,
+  ) => {
+    checkPoolIsActive();
+    if (
+      baseAmount.isNeg() ||
+      quoteAmount.isNeg() ||
+      (baseAmount.isZero() && quoteAmount.isZero())
+    ) {
+      throw new InvalidInputError();
+    }
+    const isInitialDeposit = poolState.baseSupply.isZero() && poolState.quoteSupply.isZero();
+    if (!isInitialDeposit && (poolState.baseSupply.isZero() || poolState.quoteSupply.isZero())) {
+      throw new EmptyPoolError();
+    }
+
+    const { base, quote } = splitByRatio(
+      toBigNumber(baseAmount),
+      toBigNumber(quoteAmount),
+      new BigNumber(1),
+      simulatedSwapInfo.swapType.stableSwap
+        ? normalizePrice(new BigNumber(1))
+        : normalizePrice(marketPrice),
+    );
+
+    let baseShare: BN;
+    let quoteShare: BN;
+    if (isInitialDeposit) {
+      // the initial deposit seeds the pool, both tokens are needed to price the shares
+      if (base.isZero() || quote.isZero()) {
+        throw new InvalidInputError();
+      }
+      // shares are minted 1:1 with the seeded amounts, and the pool is balanced at its reserves
+      baseShare = toBN(base);
+      quoteShare = toBN(quote);
+      if (baseShare.lt(minBaseShare) || quoteShare.lt(minQuoteShare)) {
+        throw new ExceededSlippageError();
+      }
+      poolState.baseReserve = poolState.baseReserve.add(toBN(base));
+      poolState.quoteReserve = poolState.quoteReserve.add(toBN(quote));
+      poolState.targetBaseReserve = poolState.baseReserve.clone();
+      poolState.targetQuoteReserve = poolState.quoteReserve.clone();
+    } else {
+      const { normalizedBaseReserve, normalizedQuoteReserve } = getNormalizedPoolReserves(
+        toBigNumber(poolState.baseReserve),
+        toBigNumber(poolState.quoteReserve),
+      );
+
+      // share = supply * deposit_amount / normalized_reserve
+      baseShare = toBN(
+        toBigNumber(poolState.baseSupply).multipliedBy(base).dividedBy(normalizedBaseReserve),
+      );
+      quoteShare = toBN(
+        toBigNumber(poolState.quoteSupply).multipliedBy(quote).dividedBy(normalizedQuoteReserve),
+      );
+      if (baseShare.lt(minBaseShare) || quoteShare.lt(minQuoteShare)) {
+        throw new ExceededSlippageError();
+      }
+
+      // target reserves grow with the supplies, so the value of the existing shares is unchanged
+      poolState.targetBaseReserve = poolState.targetBaseReserve.add(
+        toBN(
+          base
+            .multipliedBy(poolState.targetBaseReserve.toString())
+            .dividedBy(normalizedBaseReserve),
+        ),
+      );
+      poolState.targetQuoteReserve = poolState.targetQuoteReserve.add(
+        toBN(
+          quote
+            .multipliedBy(poolState.targetQuoteReserve.toString())
+            .dividedBy(normalizedQuoteReserve),
+        ),
+      );
+      poolState.baseReserve = poolState.baseReserve.add(toBN(base));
+      poolState.quoteReserve = poolState.quoteReserve.add(toBN(quote));
+    }
+    poolState.baseSupply = poolState.baseSupply.add(baseShare);
+    poolState.quoteSupply = poolState.quoteSupply.add(quoteShare);
+
+    const address = owner.toBase58();
+    const liquidityProvider: LiquidityProvider = ownerToLiquidityProvider[address] || {
+      bump: 0,
+      configKey: simulatedSwapInfo.configKey,
+      swapKey: options.swapInfoPubkey || PublicKey.default,
+      owner,
+      baseShare: new BN(0),
+      quoteShare: new BN(0),
+      stakedBaseShare: new BN(0),
+      stakedQuoteShare: new BN(0),
+      deprecatedU64: [],
+      reservedU64: [],
+    };
+    liquidityProvider.baseShare = liquidityProvider.baseShare.add(baseShare);
+    liquidityProvider.quoteShare = liquidityProvider.quoteShare.add(quoteShare);
+    ownerToLiquidityProvider[address] = liquidityProvider;
+
+    return { baseAmount: toBN(base), quoteAmount: toBN(quote), baseShare, quoteShare };
+  };
+
+  const withdraw = (
+    owner: PublicKey,
+    baseShare: BN,
+    quoteShare: BN,
+    minBaseAmount: BN,
+    minQuoteAmount: BN,
+  ) => {
+    checkPoolIsActive();
+    const liquidityProvider: LiquidityProvider = ownerToLiquidityProvider[owner.toBase58()];
+    if (!liquidityProvider) {
+      throw new LiquidityPositionEmptyError();
+    }
+    if (baseShare.isNeg() || quoteShare.isNeg() || (baseShare.isZero() && quoteShare.isZero())) {
+      throw new InvalidInputError();
+    }
+    // staked shares have to be unstaked from the farm before they are withdrawn
+    if (
+      baseShare.gt(liquidityProvider.baseShare.sub(liquidityProvider.stakedBaseShare)) ||
+      quoteShare.gt(liquidityProvider.quoteShare.sub(liquidityProvider.stakedQuoteShare))
+    ) {
+      throw new InvalidWithdrawalAmountError();
+    }
+
+    const baseTokenInfo = {
+      price: normalizePrice(marketPrice),
+      share: toBigNumber(baseShare),
+      shareSupply: toBigNumber(poolState.baseSupply),
+      reserve: toBigNumber(poolState.baseReserve),
+      targetReserve: toBigNumber(poolState.targetBaseReserve),
+    };
+    const quoteTokenInfo = {
+      price: new BigNumber(1),
+      share: toBigNumber(quoteShare),
+      shareSupply: toBigNumber(poolState.quoteSupply),
+      reserve: toBigNumber(poolState.quoteReserve),
+      targetReserve: toBigNumber(poolState.targetQuoteReserve),
+    };
+
+    let grossBaseAmount: BN;
+    let grossQuoteAmount: BN;
+    if (
+      baseTokenInfo.reserve
+        .dividedBy(baseTokenInfo.targetReserve)
+        .isLessThan(quoteTokenInfo.reserve.dividedBy(quoteTokenInfo.targetReserve))
+    ) {
+      const { lowTokenAmount, highTokenAmount } = calculateWithdrawFromSharesAndBalances(
+        baseTokenInfo,
+        quoteTokenInfo,
+      );
+      grossBaseAmount = toBN(lowTokenAmount);
+      grossQuoteAmount = toBN(highTokenAmount);
+    } else {
+      const { lowTokenAmount, highTokenAmount } = calculateWithdrawFromSharesAndBalances(
+        quoteTokenInfo,
+        baseTokenInfo,
+      );
+      grossBaseAmount = toBN(highTokenAmount);
+      grossQuoteAmount = toBN(lowTokenAmount);
+    }
+
+    const {
+      withdrawFee: baseWithdrawFee,
+      adminFee: baseAdminFee,
+      netAmount: baseAmount,
+    } = calculateWithdrawFees(grossBaseAmount, swapConfig);
+    const {
+      withdrawFee: quoteWithdrawFee,
+      adminFee: quoteAdminFee,
+      netAmount: quoteAmount,
+    } = calculateWithdrawFees(grossQuoteAmount, swapConfig);
+
+    if (baseAmount.lt(minBaseAmount) || quoteAmount.lt(minQuoteAmount)) {
+      throw new WithdrawNotEnoughError();
+    }
+    if (
+      baseAmount.add(baseAdminFee).gt(poolState.baseReserve) ||
+      quoteAmount.add(quoteAdminFee).gt(poolState.quoteReserve)
+    ) {
+      throw new InsufficientLiquidityError();
+    }
+
+    // target reserves shrink with the supplies
+    poolState.targetBaseReserve = poolState.targetBaseReserve.sub(
+      poolState.targetBaseReserve.mul(baseShare).div(poolState.baseSupply),
+    );
+    poolState.targetQuoteReserve = poolState.targetQuoteReserve.sub(
+      poolState.targetQuoteReserve.mul(quoteShare).div(poolState.quoteSupply),
+    );
+    poolState.baseReserve = poolState.baseReserve.sub(baseAmount.add(baseAdminFee));
+    poolState.quoteReserve = poolState.quoteReserve.sub(quoteAmount.add(quoteAdminFee));
+    poolState.baseSupply = poolState.baseSupply.sub(baseShare);
+    poolState.quoteSupply = poolState.quoteSupply.sub(quoteShare);
+
+    liquidityProvider.baseShare = liquidityProvider.baseShare.sub(baseShare);
+    liquidityProvider.quoteShare = liquidityProvider.quoteShare.sub(quoteShare);
+
+    return {
+      baseShare,
+      quoteShare,
+      baseAmount,
+      quoteAmount,
+      baseWithdrawFee,
+      quoteWithdrawFee,
+      baseAdminFee,
+      quoteAdminFee,
+    };
+  };
+
+  return {
+    getSwapInfo: () => ({ ...simulatedSwapInfo, poolState: clonePoolState(poolState) }),
+    getLiquidityProvider: (owner) => {
+      const liquidityProvider = ownerToLiquidityProvider[owner.toBase58()];
+      return liquidityProvider ? cloneLiquidityProvider(liquidityProvider) : null;
+    },
+    setLiquidityProvider: (liquidityProvider) => {
+      ownerToLiquidityProvider[liquidityProvider.owner.toBase58()] =
+        cloneLiquidityProvider(liquidityProvider);
+    },
+    setMarketPrice: (newMarketPrice, newLowPrice, newHighPrice) => {
+      marketPrice = newMarketPrice;
+      lowPrice = newLowPrice || null;
+      highPrice = newHighPrice || null;
+      // the pool state records the prices scaled by WAD, same as the program
+      poolState.marketPrice = toBN(newMarketPrice.multipliedBy(WAD));
+      poolState.lowPrice = toBN((newLowPrice || newMarketPrice).multipliedBy(WAD));
+      poolState.highPrice = toBN((newHighPrice || newMarketPrice).multipliedBy(WAD));
+    },
+    swap,
+    deposit,
+    withdraw,
+  };
+}
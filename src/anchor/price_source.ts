@@ -0,0 +1,96 @@
+import BigNumber from "bignumber.js";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { SwapInfo } from "./type_definitions";
+import {
+  getPythMarketPriceTuple,
+  MarketPriceTuple,
+  PythPriceValidationOption,
+  SymbolToPythPriceData,
+} from "./pyth_utils";
+import { getSerumMarketPriceTuple } from "./serum_utils";
+import { TokenConfig } from "../calculations/types";
+import { WAD } from "../calculations/utils";
+
+/**
+ * source of the market price of a pool, used by quoting, deposit and withdrawal helpers
+ * the market price is basePrice / quotePrice, in UI unit of the tokens
+ */
+export interface PriceSource {
+  getMarketPriceTuple(
+    swapInfo: SwapInfo,
+    baseToken: TokenConfig,
+    quoteToken: TokenConfig,
+  ): Promise<MarketPriceTuple>;
+}
+
+export function isPriceSource(value: any): value is PriceSource {
+  return !!value && typeof value.getMarketPriceTuple === "function";
+}
+
+// prices from pyth price data, fetched by getSymbolToPythPriceData
+export function createPythPriceSource(
+  symbolToPythPriceData: SymbolToPythPriceData,
+  validationOption?: PythPriceValidationOption,
+): PriceSource {
+  return {
+    getMarketPriceTuple: async (_swapInfo, baseToken, quoteToken) =>
+      getPythMarketPriceTuple(
+        symbolToPythPriceData,
+        baseToken.symbol,
+        quoteToken.symbol,
+        validationOption,
+      ),
+  };
+}
+
+// fixed prices by token symbol, for tests, backtests and testnet mock tokens
+// the low and high prices are the market price, there is no confidence interval
+export function createFixedPriceSource(
+  symbolToPrice: Record<string, number | string | BigNumber>,
+): PriceSource {
+  return {
+    getMarketPriceTuple: async (_swapInfo, baseToken, quoteToken) => {
+      const basePrice = symbolToPrice[baseToken.symbol];
+      const quotePrice = symbolToPrice[quoteToken.symbol];
+      const marketPrice =
+        basePrice === undefined || quotePrice === undefined
+          ? new BigNumber(NaN)
+          : new BigNumber(basePrice).dividedBy(new BigNumber(quotePrice));
+      return { marketPrice, lowPrice: marketPrice, highPrice: marketPrice };
+    },
+  };
+}
+
+// fixed prices from the mockPrice of the tokens' pyth configs
+export function createMockPriceSource(tokenConfigs: TokenConfig[]): PriceSource {
+  const symbolToPrice: Record<string, number> = {};
+  tokenConfigs
+    .filter(({ pyth }) => !!pyth && pyth.mockPrice !== undefined)
+    .forEach(({ symbol, pyth }) => {
+      symbolToPrice[symbol] = pyth.mockPrice;
+    });
+  return createFixedPriceSource(symbolToPrice);
+}
+
+// prices the program recorded in the pool state in its last update
+// the pool state prices are basePrice / quotePrice scaled by WAD
+export function createPoolStatePriceSource(): PriceSource {
+  return {
+    getMarketPriceTuple: async (swapInfo) => ({
+      marketPrice: new BigNumber(swapInfo.poolState.marketPrice.toString()).dividedBy(WAD),
+      lowPrice: new BigNumber(swapInfo.poolState.lowPrice.toString()).dividedBy(WAD),
+      highPrice: new BigNumber(swapInfo.poolState.highPrice.toString()).dividedBy(WAD),
+    }),
+  };
+}
+
+// prices from the serum order book of serum swap pools
+export function createSerumPriceSource(
+  connection: Connection,
+  serumProgramId: PublicKey,
+): PriceSource {
+  return {
+    getMarketPriceTuple: (swapInfo) =>
+      getSerumMarketPriceTuple(connection, swapInfo, serumProgramId),
+  };
+}
@@ -1,13 +1,111 @@
 import BigNumber from "bignumber.js";
 import { TokenConfig } from "../calculations/types";
 import { Connection, PublicKey } from "@solana/web3.js";
-import { parsePriceData, PriceData } from "@pythnetwork/client";
+import { MAX_SLOT_DIFFERENCE, parsePriceData, PriceData, PriceStatus } from "@pythnetwork/client";
 
 export type SymbolToPythPriceData = Record<string, PriceData>;
 export type MarketPriceTuple = {
   marketPrice: BigNumber;
   lowPrice: BigNumber;
   highPrice: BigNumber;
+  // reasons of the invalid prices by token symbol, only set when the prices are validated
+  invalidReasons?: Record<string, PythPriceInvalidReason[]>;
+};
+
+// reasons the program would reject a pyth price
+// - MissingPrice: the price account has no price, rejected with InvalidPythPrice
+// - NotTrading: the price status is not trading, rejected with InvalidPythPrice
+// - StalePrice: the price is not published recently, rejected with UnstablePythPrice
+// - InconfidentPrice: the confidence interval is too wide, rejected with InconfidentPythPrice
+export type PythPriceInvalidReason =
+  | "MissingPrice"
+  | "NotTrading"
+  | "StalePrice"
+  | "InconfidentPrice";
+
+export type PythPriceValidationConfig = {
+  // max number of slots between the price's publish slot and the current slot
+  maxSlotAge: number;
+  // max ratio of the confidence interval to the price
+  maxConfidenceRatio: number;
+};
+
+// maxSlotAge is the pyth client's MAX_SLOT_DIFFERENCE, the staleness limit of pyth itself
+// the program's confidence limit is a program constant that is not in the idl,
+// 2% is a conservative default that flags prices well before they become unusable
+// pass a config to match a deployment's exact limit
+export const DEFAULT_PYTH_PRICE_VALIDATION_CONFIG: PythPriceValidationConfig = {
+  maxSlotAge: MAX_SLOT_DIFFERENCE,
+  maxConfidenceRatio: 0.02,
+};
+
+/**
+ * check a pyth price the same way the program does before it uses the price
+ * mock prices of the testnet have no status and are always valid
+ * @param priceData pyth price data
+ * @param currentSlot current slot of the cluster
+ * @param config slot age and confidence thresholds
+ * @returns reasons why the price is invalid, empty if the price is valid
+ */
+export function validatePythPriceData(
+  priceData: PriceData,
+  currentSlot: number,
+  config: PythPriceValidationConfig = DEFAULT_PYTH_PRICE_VALIDATION_CONFIG,
+): PythPriceInvalidReason[] {
+  if (!priceData || priceData.price === undefined || priceData.price === null) {
+    return ["MissingPrice"];
+  }
+  if (priceData.status === undefined) {
+    return [];
+  }
+
+  const invalidReasons: PythPriceInvalidReason[] = [];
+  if (priceData.status !== PriceStatus.Trading) {
+    invalidReasons.push("NotTrading");
+  }
+  if (currentSlot - priceData.aggregate.publishSlot > config.maxSlotAge) {
+    invalidReasons.push("StalePrice");
+  }
+  if (
+    priceData.price <= 0 ||
+    new BigNumber(priceData.confidence || 0)
+      .dividedBy(priceData.price)
+      .isGreaterThan(config.maxConfidenceRatio)
+  ) {
+    invalidReasons.push("InconfidentPrice");
+  }
+  return invalidReasons;
+}
+
+/**
+ * validate the pyth prices of the given symbols
+ * @returns reasons of the invalid prices by token symbol, valid prices are not included
+ */
+export function getInvalidPythPriceReasons(
+  symbolToPythPriceData: SymbolToPythPriceData,
+  symbols: string[],
+  currentSlot: number,
+  config: PythPriceValidationConfig = DEFAULT_PYTH_PRICE_VALIDATION_CONFIG,
+): Record<string, PythPriceInvalidReason[]> {
+  const symbolToInvalidReasons: Record<string, PythPriceInvalidReason[]> = {};
+  for (const symbol of symbols) {
+    const invalidReasons = validatePythPriceData(
+      symbolToPythPriceData[symbol],
+      currentSlot,
+      config,
+    );
+    if (invalidReasons.length > 0) {
+      symbolToInvalidReasons[symbol] = invalidReasons;
+    }
+  }
+  return symbolToInvalidReasons;
+}
+
+export type PythPriceValidationOption = {
+  currentSlot: number;
+  config?: PythPriceValidationConfig;
+  // refuse invalid prices with NaN market prices and quote errors, otherwise only annotate them
+  refuseInvalidPrice?: boolean;
 };
 
 export async function getSymbolToPythPriceData(
@@ -38,15 +136,30 @@ export function getPythMarketPriceTuple(
   symbolToPythPriceData: SymbolToPythPriceData,
   baseSymbol: string,
   quoteSymbol: string,
+  validationOption?: PythPriceValidationOption,
 ): MarketPriceTuple {
   const basePythPriceData = symbolToPythPriceData[baseSymbol];
   const quotePythPriceData = symbolToPythPriceData[quoteSymbol];
 
-  if (!basePythPriceData || !quotePythPriceData) {
+  const invalidReasons = validationOption
+    ? getInvalidPythPriceReasons(
+        symbolToPythPriceData,
+        [baseSymbol, quoteSymbol],
+        validationOption.currentSlot,
+        validationOption.config,
+      )
+    : undefined;
+
+  if (
+    !basePythPriceData ||
+    !quotePythPriceData ||
+    (validationOption?.refuseInvalidPrice && Object.keys(invalidReasons).length > 0)
+  ) {
     return {
       marketPrice: new BigNumber(NaN),
       lowPrice: new BigNumber(NaN),
       highPrice: new BigNumber(NaN),
+      invalidReasons,
     };
   }
 
@@ -64,5 +177,6 @@ export function getPythMarketPriceTuple(
     marketPrice,
     lowPrice,
     highPrice,
+    invalidReasons,
   };
 }
@@ -0,0 +1,138 @@
+import { Context, PublicKey } from "@solana/web3.js";
+import { parsePriceData } from "@pythnetwork/client";
+import { SwapInfo } from "./type_definitions";
+import { getSymbolToPythPriceData, SymbolToPythPriceData } from "./pyth_utils";
+import { getSwapOutResult, SwapResult } from "../calculations/swapOutAmount";
+import { TokenConfig } from "../calculations/types";
+
+export type QuoteRequest = {
+  fromToken: TokenConfig;
+  toToken: TokenConfig;
+  amountIn: string;
+  maxSlippage: number;
+};
+
+export type QuoteUpdate = {
+  requestId: number;
+  request: QuoteRequest;
+  swapResult: SwapResult;
+  // slot of the latest account update the quote is computed from
+  slot: number;
+};
+
+export type QuoteStream = {
+  addQuoteRequest: (request: QuoteRequest) => number;
+  removeQuoteRequest: (requestId: number) => void;
+  close: () => Promise<void>;
+};
+
+/**
+ * watch a pool's swap info and pyth price accounts, and re-quote every registered quote request
+ * when any of them changes. a quote request is quoted once when it is added
+ * serum swap pools are priced by their order books and are not supported
+ * @param program deltafi dex v2 program
+ * @param swapInfoPubkey address of the pool's swap info
+ * @param baseTokenConfig info of the pool's base token
+ * @param quoteTokenConfig info of the pool's quote token
+ * @param onQuote callback with the fresh quote of a quote request
+ * @param onError callback with errors from decoding or quoting, ignored by default
+ * @returns quote stream to add and remove quote requests, and to close the subscriptions
+ */
+export async function subscribeSwapQuotes(
+  program: any,
+  swapInfoPubkey: PublicKey,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+  onQuote: (update: QuoteUpdate) => void,
+  onError: (error: Error) => void = () => {},
+): Promise<QuoteStream> {
+  const connection = program.provider.connection;
+
+  let swapInfo: SwapInfo = await program.account.swapInfo.fetch(swapInfoPubkey);
+  if (swapInfo.swapType.serumSwap) {
+    throw Error("Quote stream does not support serum swap pool: " + swapInfoPubkey.toBase58());
+  }
+
+  const symbolToPythPriceData: SymbolToPythPriceData = await getSymbolToPythPriceData(connection, [
+    baseTokenConfig,
+    quoteTokenConfig,
+  ]);
+  let slot: number = await connection.getSlot();
+
+  let nextRequestId = 0;
+  const idToQuoteRequest: Record<number, QuoteRequest> = {};
+
+  const quote = async (requestId: number) => {
+    const request = idToQuoteRequest[requestId];
+    if (!request) {
+      return;
+    }
+    try {
+      const swapResult = await getSwapOutResult(
+        symbolToPythPriceData,
+        swapInfo,
+        request.fromToken,
+        request.toToken,
+        request.amountIn,
+        request.maxSlippage,
+      );
+      onQuote({ requestId, request, swapResult, slot });
+    } catch (e) {
+      onError(e);
+    }
+  };
+
+  const quoteAll = (context: Context) => {
+    slot = Math.max(slot, context.slot);
+    Object.keys(idToQuoteRequest).forEach((requestId) => quote(Number(requestId)));
+  };
+
+  const subscriptionIds: number[] = [];
+  subscriptionIds.push(
+    connection.onAccountChange(swapInfoPubkey, (accountInfo, context) => {
+      try {
+        swapInfo = program.coder.accounts.decode("SwapInfo", accountInfo.data);
+      } catch (e) {
+        onError(e);
+        return;
+      }
+      quoteAll(context);
+    }),
+  );
+
+  // mock prices of the testnet are static, there is no account to watch
+  [baseTokenConfig, quoteTokenConfig]
+    .filter(({ pyth }) => !!pyth && !pyth.productName.startsWith("Mock"))
+    .forEach(({ symbol, pyth }) => {
+      subscriptionIds.push(
+        connection.onAccountChange(new PublicKey(pyth.price), (accountInfo, context) => {
+          try {
+            symbolToPythPriceData[symbol] = parsePriceData(accountInfo.data);
+          } catch (e) {
+            onError(e);
+            return;
+          }
+          quoteAll(context);
+        }),
+      );
+    });
+
+  return {
+    addQuoteRequest: (request: QuoteRequest) => {
+      const requestId = nextRequestId++;
+      idToQuoteRequest[requestId] = request;
+      quote(requestId);
+      return requestId;
+    },
+    removeQuoteRequest: (requestId: number) => {
+      delete idToQuoteRequest[requestId];
+    },
+    close: async () => {
+      await Promise.all(
+        subscriptionIds.map((subscriptionId) =>
+          connection.removeAccountChangeListener(subscriptionId),
+        ),
+      );
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import BigNumber from "bignumber.js";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { Market, Orderbook } from "@project-serum/serum";
+import { SwapInfo } from "./type_definitions";
+import { MarketPriceTuple } from "./pyth_utils";
+
+/**
+ * get the market price tuple of a serum swap pool from its serum order book
+ * the market price is the mid price of the best bid and the best ask,
+ * the best bid and the best ask are used as the low and high price
+ * @param connection rpc call connection
+ * @param swapInfo pool's information, includes serum market, bids and asks accounts
+ * @param serumProgramId serum dex program id, same as the one in the market config
+ * @returns market price tuple, prices are NaN if one side of the order book is empty
+ */
+export async function getSerumMarketPriceTuple(
+  connection: Connection,
+  swapInfo: SwapInfo,
+  serumProgramId: PublicKey,
+): Promise<MarketPriceTuple> {
+  const market = await Market.load(connection, swapInfo.serumMarket, {}, serumProgramId);
+  const [bidsAccount, asksAccount] = await connection.getMultipleAccountsInfo([
+    swapInfo.serumBids,
+    swapInfo.serumAsks,
+  ]);
+  if (!bidsAccount || !asksAccount) {
+    throw Error("Invalid serum bids/asks accounts: " + swapInfo.serumMarket.toBase58());
+  }
+
+  return getSerumMarketPriceTupleFromOrderbooks(
+    Orderbook.decode(market, bidsAccount.data),
+    Orderbook.decode(market, asksAccount.data),
+  );
+}
+
+export function getSerumMarketPriceTupleFromOrderbooks(
+  bids: Orderbook,
+  asks: Orderbook,
+): MarketPriceTuple {
+  const [bestBid] = bids.getL2(1);
+  const [bestAsk] = asks.getL2(1);
+
+  if (!bestBid || !bestAsk) {
+    return {
+      marketPrice: new BigNumber(NaN),
+      lowPrice: new BigNumber(NaN),
+      highPrice: new BigNumber(NaN),
+    };
+  }
+
+  const lowPrice = new BigNumber(bestBid[0]);
+  const highPrice = new BigNumber(bestAsk[0]);
+
+  return {
+    marketPrice: lowPrice.plus(highPrice).dividedBy(2),
+    lowPrice,
+    highPrice,
+  };
+}
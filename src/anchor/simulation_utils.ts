@@ -0,0 +1,122 @@
+import BigNumber from "bignumber.js";
+import { AccountLayout, u64 } from "@solana/spl-token";
+import { Connection, PublicKey, Transaction, TransactionError } from "@solana/web3.js";
+import { BN } from "@project-serum/anchor";
+import { decodeDeltafiSimulationError, DeltafiProgramError } from "./errors";
+import { SwapResult } from "../calculations/swapOutAmount";
+import { TokenConfig } from "../calculations/types";
+import { anchorBnToBn } from "../calculations/tokenUtils";
+
+export type TokenBalanceChange = {
+  tokenAccount: PublicKey;
+  // balances are null if the token account does not exist before or after the transaction
+  preAmount: BN | null;
+  postAmount: BN | null;
+  change: BN;
+};
+
+export type SimulationResult = {
+  slot: number;
+  err: TransactionError | string | null;
+  programError: DeltafiProgramError | null;
+  unitsConsumed: number | null;
+  logs: string[];
+  tokenBalanceChanges: TokenBalanceChange[];
+};
+
+function decodeTokenAmount(data: Buffer | null): BN | null {
+  if (!data || data.length !== AccountLayout.span) {
+    return null;
+  }
+  return new BN(u64.fromBuffer(AccountLayout.decode(data).amount).toString());
+}
+
+/**
+ * simulate a transaction from any transaction builder before asking the wallet to sign it
+ * a copy of the transaction is simulated without signature verification, so neither the
+ * builder's signers nor the wallet sign, and the transaction itself is not modified
+ * @param connection rpc call connection
+ * @param transaction transaction returned by a transaction builder
+ * @param walletPubkey wallet public key, the fee payer of the transaction
+ * @param tokenAccounts token accounts to report the balance changes of, such as the user's
+ * source and destination token accounts
+ * @returns decoded program error, compute units, logs and token balance changes
+ */
+export async function simulateTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  walletPubkey: PublicKey,
+  tokenAccounts: PublicKey[] = [],
+): Promise<SimulationResult> {
+  const simulatedTransaction = new Transaction().add(...transaction.instructions);
+  simulatedTransaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  simulatedTransaction.feePayer = walletPubkey;
+
+  const preAccounts = await connection.getMultipleAccountsInfo(tokenAccounts);
+  // without signers, the transaction is simulated with sigVerify off
+  const { context, value } = await connection.simulateTransaction(
+    simulatedTransaction,
+    undefined,
+    tokenAccounts.length > 0 ? tokenAccounts : undefined,
+  );
+
+  const tokenBalanceChanges: TokenBalanceChange[] = tokenAccounts.map((tokenAccount, i) => {
+    const preAmount = decodeTokenAmount(preAccounts[i]?.data);
+    const postAccount = value.accounts?.[i];
+    const postAmount = postAccount
+      ? decodeTokenAmount(Buffer.from(postAccount.data[0], "base64"))
+      : null;
+    return {
+      tokenAccount,
+      preAmount,
+      postAmount,
+      change: (postAmount || new BN(0)).sub(preAmount || new BN(0)),
+    };
+  });
+
+  return {
+    slot: context.slot,
+    err: value.err,
+    programError: decodeDeltafiSimulationError(value),
+    unitsConsumed: value.unitsConsumed ?? null,
+    logs: value.logs || [],
+    tokenBalanceChanges,
+  };
+}
+
+/**
+ * compare the amount out realized in a swap simulation with the quoted amount out
+ * the output token account must be one of the token accounts of the simulation
+ * wrapped SOL accounts are closed in the swap transaction, their balances cannot be compared
+ * @param simulationResult result of simulateTransaction
+ * @param outputTokenPubkey user's token account of the output token
+ * @param toToken info of the output token
+ * @param swapResult quote of the swap
+ * @returns realized and quoted amount out, and realized - quoted, in UI unit
+ */
+export function getSimulatedSwapOutDifference(
+  simulationResult: SimulationResult,
+  outputTokenPubkey: PublicKey,
+  toToken: TokenConfig,
+  swapResult: SwapResult,
+): {
+  realizedAmountOut: string;
+  quotedAmountOut: string;
+  difference: string;
+} {
+  const balanceChange = simulationResult.tokenBalanceChanges.find(({ tokenAccount }) =>
+    tokenAccount.equals(outputTokenPubkey),
+  );
+  if (!balanceChange) {
+    throw Error("Output token account is not simulated: " + outputTokenPubkey.toBase58());
+  }
+
+  const realizedAmountOut: BigNumber = anchorBnToBn(toToken, balanceChange.change);
+  return {
+    realizedAmountOut: realizedAmountOut.toFixed(toToken.decimals),
+    quotedAmountOut: swapResult.amountOut,
+    difference: realizedAmountOut
+      .minus(new BigNumber(swapResult.amountOut))
+      .toFixed(toToken.decimals),
+  };
+}
@@ -1,15 +1,29 @@
 import { token } from "@project-serum/anchor/dist/cjs/utils";
-import { AccountLayout, NATIVE_MINT, Token, TOKEN_PROGRAM_ID, u64 } from "@solana/spl-token";
+import {
+  AccountLayout,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  Token,
+  TOKEN_PROGRAM_ID,
+  u64,
+} from "@solana/spl-token";
 import {
   Keypair,
+  PACKET_DATA_SIZE,
   PublicKey,
   SystemProgram,
   SYSVAR_RENT_PUBKEY,
   Transaction,
 } from "@solana/web3.js";
-import { DeltafiUser, SwapInfo, SwapDirection } from "./type_definitions";
+import { DeltafiUser, FarmUser, SwapInfo, SwapDirection } from "./type_definitions";
 import { toBufferLE } from "bigint-buffer";
 import { BN, web3 } from "@project-serum/anchor";
+import BigNumber from "bignumber.js";
+import { ExactOutSwapResult, getSwapDirection } from "../calculations/swapOutAmount";
+import { RouteQuote } from "../calculations/routing";
+import { SplitOrderResult } from "../calculations/splitOrder";
+import { stringToAnchorBn } from "../calculations/tokenUtils";
+import { DeploymentConfig, PoolConfig, TokenConfig } from "../calculations/types";
 
 export function mergeTransactions(transactions: (Transaction | undefined)[]) {
   const transaction = new Transaction();
@@ -29,6 +43,58 @@ export async function getDeltafiUser(program, marketConfig, walletPubkey) {
   return program.account.deltafiUser.fetchNullable(deltafiUserPubkey);
 }
 
+export function getFarmInfoPubkey(poolConfig: PoolConfig, farmName: string = "default"): PublicKey {
+  const farmConfig = poolConfig.farmInfoList?.find(({ name }) => name === farmName);
+  if (!farmConfig) {
+    throw Error("Invalid farm: " + poolConfig.name + " " + farmName);
+  }
+  return new PublicKey(farmConfig.farmInfo);
+}
+
+export async function getFarmUser(program, farmInfo, walletPubkey): Promise<FarmUser | null> {
+  const [farmUserPubkey] = await PublicKey.findProgramAddress(
+    [Buffer.from("FarmUser"), farmInfo.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+  return program.account.farmUser.fetchNullable(farmUserPubkey);
+}
+
+// get the wallet's associated token account of the mint
+// and the transaction to create it if it does not exist yet
+export async function getOrCreateAssociatedTokenAccountTransaction(
+  connection: web3.Connection,
+  mint: PublicKey,
+  walletPubkey: PublicKey,
+): Promise<{
+  associatedTokenPubkey: PublicKey;
+  transaction: Transaction | undefined;
+}> {
+  const associatedTokenPubkey = await Token.getAssociatedTokenAddress(
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    mint,
+    walletPubkey,
+  );
+
+  const associatedTokenAccount = await connection.getAccountInfo(associatedTokenPubkey);
+  if (associatedTokenAccount) {
+    return { associatedTokenPubkey, transaction: undefined };
+  }
+
+  const transaction = new Transaction();
+  transaction.add(
+    Token.createAssociatedTokenAccountInstruction(
+      ASSOCIATED_TOKEN_PROGRAM_ID,
+      TOKEN_PROGRAM_ID,
+      mint,
+      associatedTokenPubkey,
+      walletPubkey,
+      walletPubkey,
+    ),
+  );
+  return { associatedTokenPubkey, transaction };
+}
+
 export function createWrapSOLTransactions(
   wrapAccountPubkey: PublicKey,
   lamports: number,
@@ -77,85 +143,146 @@ export function createWrapSOLTransactions(
   };
 }
 
-export async function createSwapTransaction(
-  poolConfig: any,
-  program: any,
-  swapInfo: SwapInfo,
-  deltafiUser: DeltafiUser,
-  walletPubkey: PublicKey,
-  inputTokenPubkey: PublicKey,
-  outputTokenPubkey: PublicKey,
-  inputAmount: BN,
-  minOutputAmount: BN,
-  swapDirection: SwapDirection,
-): Promise<any> {
-  const poolPubkey = new PublicKey(poolConfig.swapInfo);
-  const marketConfig = swapInfo.configKey;
-
-  const buySol =
-    (poolConfig.quote === "SOL" && swapDirection.sellBase) ||
-    (poolConfig.base === "SOL" && swapDirection.sellQuote);
-  const sellSol =
-    (poolConfig.quote === "SOL" && swapDirection.sellQuote) ||
-    (poolConfig.base === "SOL" && swapDirection.sellBase);
-
-  let userSourceTokenRef = inputTokenPubkey;
-  let userDestinationTokenRef = outputTokenPubkey;
+// price accounts used by normal swap and stable swap instructions
+export function getPythPriceAccounts(swapInfo: SwapInfo): {
+  pythPriceBase: PublicKey;
+  pythPriceQuote: PublicKey;
+} {
+  return {
+    pythPriceBase: swapInfo.pythPriceBase,
+    pythPriceQuote: swapInfo.pythPriceQuote,
+  };
+}
 
-  const wrappedSolRefKeyPair = Keypair.generate();
-  const createTokenAccountCost =
-    await program.provider.connection.getMinimumBalanceForRentExemption(AccountLayout.span);
-  let nativeSOLHandlingTransactions = null;
-  if (buySol || sellSol) {
-    const wrappedSOLLamport = buySol
-      ? createTokenAccountCost
-      : inputAmount.toNumber() + createTokenAccountCost;
+// serum market accounts used by serum swap instructions instead of the pyth price accounts
+export function getSerumMarketAccounts(swapInfo: SwapInfo): {
+  serumMarket: PublicKey;
+  serumBids: PublicKey;
+  serumAsks: PublicKey;
+} {
+  return {
+    serumMarket: swapInfo.serumMarket,
+    serumBids: swapInfo.serumBids,
+    serumAsks: swapInfo.serumAsks,
+  };
+}
 
-    nativeSOLHandlingTransactions = createWrapSOLTransactions(
-      wrappedSolRefKeyPair.publicKey,
-      wrappedSOLLamport,
-      walletPubkey,
-    );
+/**
+ * optional settings of the swap transaction
+ * - referrer: the referrer's deltafi user account, the swap pays referral rewards to it.
+ *   for a new user, the referrer is recorded when the deltafi user account is created
+ *   for an existing user, the referrer recorded in the deltafi user account is used
+ * - rebateToken: the token account that receives the swap rebate, in the output token mint
+ * - skipCreateDeltafiUser: do not create the deltafi user account when it does not exist,
+ *   used by the later swaps of a transaction whose first swap creates the account
+ * referrer and rebate token cannot be set at the same time
+ */
+export type SwapTransactionOptions = {
+  referrer?: PublicKey;
+  rebateToken?: PublicKey;
+  skipCreateDeltafiUser?: boolean;
+};
 
-    if (buySol) {
-      userDestinationTokenRef = wrappedSolRefKeyPair.publicKey;
-    } else {
-      userSourceTokenRef = wrappedSolRefKeyPair.publicKey;
-    }
+// referrer of the swap, the referrer recorded in an existing deltafi user replaces the option
+function getSwapReferrer(
+  deltafiUser: DeltafiUser,
+  options: SwapTransactionOptions,
+): PublicKey | null {
+  if (options.referrer && options.rebateToken) {
+    throw Error("Referrer and rebate token cannot be used in the same swap");
   }
+  if (!options.referrer) {
+    return null;
+  }
+  if (deltafiUser && !deltafiUser.referrer.equals(PublicKey.default)) {
+    return deltafiUser.referrer;
+  }
+  // an existing user without a recorded referrer cannot swap with a referrer
+  return deltafiUser ? null : options.referrer;
+}
 
-  const userTransferAuthority = Keypair.generate();
-  const transactionApprove: Transaction = new Transaction();
-  transactionApprove.add(
-    Token.createApproveInstruction(
-      TOKEN_PROGRAM_ID,
-      userSourceTokenRef,
-      userTransferAuthority.publicKey,
-      walletPubkey,
-      [],
-      u64.fromBuffer(toBufferLE(BigInt(inputAmount.toString()), 8)),
-    ),
-  );
-
+// get the wallet's deltafi user account and the transaction to create it if it does not exist yet
+async function getOrCreateDeltafiUserTransaction(
+  program: any,
+  marketConfig: PublicKey,
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  referrer: PublicKey | null,
+): Promise<{
+  deltafiUserPubkey: PublicKey;
+  transaction: Transaction | undefined;
+}> {
   const [deltafiUserPubkey, deltafiUserBump] = await PublicKey.findProgramAddress(
     [Buffer.from("User"), marketConfig.toBuffer(), walletPubkey.toBuffer()],
     program.programId,
   );
 
-  const transactionCreateDeltafiUser: Transaction | undefined = (() => {
-    if (!deltafiUser) {
-      return program.transaction.createDeltafiUser(deltafiUserBump, {
+  if (deltafiUser) {
+    return { deltafiUserPubkey, transaction: undefined };
+  } else if (referrer) {
+    return {
+      deltafiUserPubkey,
+      transaction: program.transaction.createDeltafiUserWithReferrer(deltafiUserBump, {
         accounts: {
           marketConfig,
           owner: walletPubkey,
           deltafiUser: deltafiUserPubkey,
+          referrer,
           systemProgram: SystemProgram.programId,
           rent: SYSVAR_RENT_PUBKEY,
         },
-      });
-    }
-  })();
+      }),
+    };
+  }
+  return {
+    deltafiUserPubkey,
+    transaction: program.transaction.createDeltafiUser(deltafiUserBump, {
+      accounts: {
+        marketConfig,
+        owner: walletPubkey,
+        deltafiUser: deltafiUserPubkey,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      },
+    }),
+  };
+}
+
+function createApproveTransaction(
+  userSourceToken: PublicKey,
+  userAuthority: PublicKey,
+  walletPubkey: PublicKey,
+  amount: BN,
+): Transaction {
+  const transaction = new Transaction();
+  transaction.add(
+    Token.createApproveInstruction(
+      TOKEN_PROGRAM_ID,
+      userSourceToken,
+      userAuthority,
+      walletPubkey,
+      [],
+      u64.fromBuffer(toBufferLE(BigInt(amount.toString()), 8)),
+    ),
+  );
+  return transaction;
+}
 
+// swap instruction of the pool's swap type, the user authority is approved on the user source token
+function createPoolSwapTransaction(
+  poolConfig: PoolConfig,
+  program: any,
+  swapInfo: SwapInfo,
+  deltafiUserPubkey: PublicKey,
+  userSourceToken: PublicKey,
+  userDestinationToken: PublicKey,
+  userAuthority: PublicKey,
+  inputAmount: BN,
+  minOutputAmount: BN,
+  swapDirection: SwapDirection,
+  referrer: PublicKey | null,
+  rebateToken: PublicKey | undefined,
+): Transaction {
   const { swapSourceToken, swapDestinationToken, adminDestinationToken } = (() => {
     if (swapDirection.sellBase) {
       return {
@@ -175,37 +302,139 @@ export async function createSwapTransaction(
   })();
 
   const swapAccounts = {
-    marketConfig: marketConfig,
-    swapInfo: poolPubkey,
-    userSourceToken: userSourceTokenRef,
-    userDestinationToken: userDestinationTokenRef,
+    marketConfig: swapInfo.configKey,
+    swapInfo: new PublicKey(poolConfig.swapInfo),
+    userSourceToken,
+    userDestinationToken,
     swapSourceToken,
     swapDestinationToken,
     deltafiUser: deltafiUserPubkey,
     adminDestinationToken,
-    pythPriceBase: swapInfo.pythPriceBase,
-    pythPriceQuote: swapInfo.pythPriceQuote,
-    userAuthority: userTransferAuthority.publicKey,
+    userAuthority,
     tokenProgram: token.TOKEN_PROGRAM_ID,
   };
 
-  const transactionSwap: Transaction = (() => {
-    if (swapInfo.swapType.normalSwap) {
-      return program.transaction.normalSwap(inputAmount, minOutputAmount, {
-        accounts: swapAccounts,
+  if (swapInfo.swapType.normalSwap) {
+    const accounts = { ...swapAccounts, ...getPythPriceAccounts(swapInfo) };
+    if (referrer) {
+      return program.transaction.normalSwapWithReferrer(inputAmount, minOutputAmount, {
+        accounts: { ...accounts, referrer },
       });
-    } else if (swapInfo.swapType.stableSwap) {
-      return program.transaction.stableSwap(inputAmount, minOutputAmount, {
-        accounts: swapAccounts,
+    } else if (rebateToken) {
+      return program.transaction.normalSwapWithRebate(inputAmount, minOutputAmount, {
+        accounts: { ...accounts, rebateToken },
+      });
+    }
+    return program.transaction.normalSwap(inputAmount, minOutputAmount, { accounts });
+  } else if (swapInfo.swapType.stableSwap) {
+    const accounts = { ...swapAccounts, ...getPythPriceAccounts(swapInfo) };
+    if (referrer) {
+      return program.transaction.stableSwapWithReferrer(inputAmount, minOutputAmount, {
+        accounts: { ...accounts, referrer },
+      });
+    } else if (rebateToken) {
+      return program.transaction.stableSwapWithRebate(inputAmount, minOutputAmount, {
+        accounts: { ...accounts, rebateToken },
+      });
+    }
+    return program.transaction.stableSwap(inputAmount, minOutputAmount, { accounts });
+  } else if (swapInfo.swapType.serumSwap) {
+    const accounts = { ...swapAccounts, ...getSerumMarketAccounts(swapInfo) };
+    if (referrer) {
+      return program.transaction.serumSwapWithReferrer(inputAmount, minOutputAmount, {
+        accounts: { ...accounts, referrer },
       });
+    } else if (rebateToken) {
+      throw Error("Serum swap does not support rebate");
     }
+    return program.transaction.serumSwap(inputAmount, minOutputAmount, { accounts });
+  }
 
-    throw Error("Invalid swap type: " + swapInfo.swapType);
-  })();
+  throw Error("Invalid swap type: " + swapInfo.swapType);
+}
+
+export async function createSwapTransaction(
+  poolConfig: PoolConfig,
+  program: any,
+  swapInfo: SwapInfo,
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  inputTokenPubkey: PublicKey,
+  outputTokenPubkey: PublicKey,
+  inputAmount: BN,
+  minOutputAmount: BN,
+  swapDirection: SwapDirection,
+  options: SwapTransactionOptions = {},
+): Promise<any> {
+  const referrer = getSwapReferrer(deltafiUser, options);
+
+  const buySol =
+    (poolConfig.quote === "SOL" && swapDirection.sellBase) ||
+    (poolConfig.base === "SOL" && swapDirection.sellQuote);
+  const sellSol =
+    (poolConfig.quote === "SOL" && swapDirection.sellQuote) ||
+    (poolConfig.base === "SOL" && swapDirection.sellBase);
+
+  let userSourceTokenRef = inputTokenPubkey;
+  let userDestinationTokenRef = outputTokenPubkey;
+
+  const wrappedSolRefKeyPair = Keypair.generate();
+  const createTokenAccountCost =
+    await program.provider.connection.getMinimumBalanceForRentExemption(AccountLayout.span);
+  let nativeSOLHandlingTransactions = null;
+  if (buySol || sellSol) {
+    const wrappedSOLLamport = buySol
+      ? createTokenAccountCost
+      : inputAmount.toNumber() + createTokenAccountCost;
+
+    nativeSOLHandlingTransactions = createWrapSOLTransactions(
+      wrappedSolRefKeyPair.publicKey,
+      wrappedSOLLamport,
+      walletPubkey,
+    );
+
+    if (buySol) {
+      userDestinationTokenRef = wrappedSolRefKeyPair.publicKey;
+    } else {
+      userSourceTokenRef = wrappedSolRefKeyPair.publicKey;
+    }
+  }
+
+  const userTransferAuthority = Keypair.generate();
+  const transactionApprove = createApproveTransaction(
+    userSourceTokenRef,
+    userTransferAuthority.publicKey,
+    walletPubkey,
+    inputAmount,
+  );
+
+  const { deltafiUserPubkey, transaction: transactionCreateDeltafiUser } =
+    await getOrCreateDeltafiUserTransaction(
+      program,
+      swapInfo.configKey,
+      deltafiUser,
+      walletPubkey,
+      referrer,
+    );
+
+  const transactionSwap = createPoolSwapTransaction(
+    poolConfig,
+    program,
+    swapInfo,
+    deltafiUserPubkey,
+    userSourceTokenRef,
+    userDestinationTokenRef,
+    userTransferAuthority.publicKey,
+    inputAmount,
+    minOutputAmount,
+    swapDirection,
+    referrer,
+    options.rebateToken,
+  );
 
   let transaction = mergeTransactions([
     transactionApprove,
-    transactionCreateDeltafiUser,
+    options.skipCreateDeltafiUser ? undefined : transactionCreateDeltafiUser,
     transactionSwap,
   ]);
 
@@ -228,8 +457,307 @@ export async function createSwapTransaction(
   return { transaction, signers };
 }
 
+/**
+ * create a swap transaction that receives at least the exact output amount
+ * the swap sends the max input amount, so the realized output may overshoot the output amount
+ * @param exactOutSwapResult result of calculateExactOutSwapResult, with the max input amount
+ *   and whether the swap exceeds the max swap out amount
+ */
+export async function createExactOutSwapTransaction(
+  poolConfig: PoolConfig,
+  program: any,
+  swapInfo: SwapInfo,
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  inputTokenPubkey: PublicKey,
+  outputTokenPubkey: PublicKey,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  exactOutSwapResult: ExactOutSwapResult,
+  options: SwapTransactionOptions = {},
+): Promise<any> {
+  // the gross output of the max input amount can reach maxAmountOut + fee, which the program checks
+  if (exactOutSwapResult.exceededSwapOutAmount) {
+    throw Error("Exceeded swap out amount: " + exactOutSwapResult.maxAmountOut);
+  }
+
+  return createSwapTransaction(
+    poolConfig,
+    program,
+    swapInfo,
+    deltafiUser,
+    walletPubkey,
+    inputTokenPubkey,
+    outputTokenPubkey,
+    stringToAnchorBn(fromToken, exactOutSwapResult.maxAmountIn),
+    stringToAnchorBn(toToken, exactOutSwapResult.amountOut),
+    getSwapDirection(fromToken, toToken, swapInfo),
+    options,
+  );
+}
+
+// serialized size of the transaction with the wallet as the fee payer, including the signatures
+function getTransactionSize(transaction: Transaction, walletPubkey: PublicKey): number {
+  const message = new Transaction({
+    recentBlockhash: PublicKey.default.toBase58(),
+    feePayer: walletPubkey,
+  })
+    .add(transaction)
+    .compileMessage();
+  // the message is serialized into a buffer of the packet size, a larger message throws
+  let messageSize: number;
+  try {
+    messageSize = message.serialize().length;
+  } catch (e) {
+    return Infinity;
+  }
+  const signatureCount = message.header.numRequiredSignatures;
+  return (signatureCount < 128 ? 1 : 2) + signatureCount * 64 + messageSize;
+}
+
+/**
+ * pack the parts into as few transactions as fit the packet size, keeping their order
+ * each transaction is signed by the signers of its parts
+ */
+function packTransactions(
+  parts: { transaction: Transaction; signers: Keypair[] }[],
+  walletPubkey: PublicKey,
+): { transaction: Transaction; signers: Keypair[] }[] {
+  const packedTransactions: { transaction: Transaction; signers: Keypair[] }[] = [];
+  parts.forEach((part) => {
+    if (getTransactionSize(part.transaction, walletPubkey) > PACKET_DATA_SIZE) {
+      throw Error("Transaction too large");
+    }
+
+    const lastTransaction = packedTransactions[packedTransactions.length - 1];
+    const transaction = lastTransaction
+      ? mergeTransactions([lastTransaction.transaction, part.transaction])
+      : undefined;
+    if (!transaction || getTransactionSize(transaction, walletPubkey) > PACKET_DATA_SIZE) {
+      packedTransactions.push({ transaction: part.transaction, signers: [...part.signers] });
+      return;
+    }
+
+    lastTransaction.transaction = transaction;
+    part.signers
+      .filter((signer) => !lastTransaction.signers.includes(signer))
+      .forEach((signer) => lastTransaction.signers.push(signer));
+  });
+  return packedTransactions;
+}
+
+// a swap of a route hop or a split order allocation
+type SwapLeg = {
+  poolConfig: PoolConfig;
+  swapInfo: SwapInfo;
+  fromToken: TokenConfig;
+  toToken: TokenConfig;
+  inputAmount: BN;
+  minOutputAmount: BN;
+  swapDirection: SwapDirection;
+  rebateToken?: PublicKey;
+};
+
+/**
+ * create the transactions of several swaps, in as few transactions as fit the packet size
+ * the swaps share one user transfer authority, and the SOL of all swaps goes through one wrapped
+ * SOL account, created before the first swap and closed after the last swap
+ * @param mintToUserTokenPubkey user's token account of each token except SOL, keyed by mint
+ */
+async function createSwapLegsTransactions(
+  program: any,
+  swapLegs: SwapLeg[],
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  mintToUserTokenPubkey: Record<string, PublicKey>,
+  options: SwapTransactionOptions,
+): Promise<{ transaction: Transaction; signers: Keypair[] }[]> {
+  const referrer = getSwapReferrer(deltafiUser, options);
+  const userTransferAuthority = Keypair.generate();
+  const wrappedSolKeyPair = Keypair.generate();
+  const isSol = (tokenConfig: TokenConfig) => tokenConfig.symbol === "SOL";
+
+  const parts: { transaction: Transaction; signers: Keypair[] }[] = [];
+  const setupTransactions: Transaction[] = [];
+  const setupSigners: Keypair[] = [];
+  let closeWrappedSolTransaction: Transaction | undefined;
+  if (swapLegs.some(({ fromToken, toToken }) => isSol(fromToken) || isSol(toToken))) {
+    // only the SOL sent before any swap outputs SOL comes from the wallet
+    let wrappedSolLamports = new BN(
+      await program.provider.connection.getMinimumBalanceForRentExemption(AccountLayout.span),
+    );
+    for (const { fromToken, toToken, inputAmount } of swapLegs) {
+      if (isSol(toToken)) {
+        break;
+      } else if (isSol(fromToken)) {
+        wrappedSolLamports = wrappedSolLamports.add(inputAmount);
+      }
+    }
+
+    const {
+      createWrappedTokenAccountTransaction,
+      initializeWrappedTokenAccountTransaction,
+      closeWrappedTokenAccountTransaction,
+    } = createWrapSOLTransactions(
+      wrappedSolKeyPair.publicKey,
+      wrappedSolLamports.toNumber(),
+      walletPubkey,
+    );
+    setupTransactions.push(
+      createWrappedTokenAccountTransaction,
+      initializeWrappedTokenAccountTransaction,
+    );
+    setupSigners.push(wrappedSolKeyPair);
+    closeWrappedSolTransaction = closeWrappedTokenAccountTransaction;
+  }
+  const getUserTokenPubkey = (tokenConfig: TokenConfig) =>
+    isSol(tokenConfig) ? wrappedSolKeyPair.publicKey : mintToUserTokenPubkey[tokenConfig.mint];
+
+  // all swaps are in the same market, the deltafi user is created before the first swap
+  const { deltafiUserPubkey, transaction: createDeltafiUserTransaction } =
+    await getOrCreateDeltafiUserTransaction(
+      program,
+      swapLegs[0].swapInfo.configKey,
+      deltafiUser,
+      walletPubkey,
+      referrer,
+    );
+  if (createDeltafiUserTransaction && !options.skipCreateDeltafiUser) {
+    setupTransactions.push(createDeltafiUserTransaction);
+  }
+  if (setupTransactions.length > 0) {
+    parts.push({ transaction: mergeTransactions(setupTransactions), signers: setupSigners });
+  }
+
+  swapLegs.forEach((swapLeg) => {
+    const userSourceToken = getUserTokenPubkey(swapLeg.fromToken);
+    // each approve sets the amount of the swap right after it
+    const transaction = mergeTransactions([
+      createApproveTransaction(
+        userSourceToken,
+        userTransferAuthority.publicKey,
+        walletPubkey,
+        swapLeg.inputAmount,
+      ),
+      createPoolSwapTransaction(
+        swapLeg.poolConfig,
+        program,
+        swapLeg.swapInfo,
+        deltafiUserPubkey,
+        userSourceToken,
+        getUserTokenPubkey(swapLeg.toToken),
+        userTransferAuthority.publicKey,
+        swapLeg.inputAmount,
+        swapLeg.minOutputAmount,
+        swapLeg.swapDirection,
+        referrer,
+        swapLeg.rebateToken,
+      ),
+    ]);
+    parts.push({ transaction, signers: [userTransferAuthority] });
+  });
+
+  if (closeWrappedSolTransaction) {
+    parts.push({ transaction: closeWrappedSolTransaction, signers: [] });
+  }
+
+  return packTransactions(parts, walletPubkey);
+}
+
+/**
+ * create the transactions that swap through all hops of a route, in as few transactions as fit
+ * the packet size. the transactions must be sent in order, a route that does not fit in one
+ * transaction is not atomic, and the intermediate tokens of the completed hops stay in the
+ * user's token accounts if a later transaction fails
+ * each hop sends the min amount out of the previous hop, the intermediate tokens
+ * go through the user's token accounts of the intermediate mints, and the intermediate SOL
+ * through the wrapped SOL account of the route
+ * @param routeQuote quote of the route, from quoteRoute or getBestRoute
+ * @param mintToUserTokenPubkey user's token account of each token in the route except SOL,
+ *   keyed by mint
+ * @param options options of the swaps, the rebate token is in the route's output mint
+ *   so only the last hop pays the rebate to it
+ */
+export async function createRouteSwapTransactions(
+  program: any,
+  routeQuote: RouteQuote,
+  poolToSwapInfo: Record<string, SwapInfo>,
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  mintToUserTokenPubkey: Record<string, PublicKey>,
+  options: SwapTransactionOptions = {},
+): Promise<{ transaction: Transaction; signers: Keypair[] }[]> {
+  const swapLegs: SwapLeg[] = routeQuote.hops.map(
+    ({ poolConfig, fromToken, toToken, swapDirection }, i) => ({
+      poolConfig,
+      swapInfo: poolToSwapInfo[poolConfig.swapInfo],
+      fromToken,
+      toToken,
+      inputAmount: stringToAnchorBn(fromToken, routeQuote.hopAmountsIn[i]),
+      minOutputAmount: stringToAnchorBn(toToken, routeQuote.hopMinAmountsOut[i]),
+      swapDirection,
+      rebateToken: i === routeQuote.hops.length - 1 ? options.rebateToken : undefined,
+    }),
+  );
+
+  return createSwapLegsTransactions(
+    program,
+    swapLegs,
+    deltafiUser,
+    walletPubkey,
+    mintToUserTokenPubkey,
+    options,
+  );
+}
+
+/**
+ * create the transactions that swap each allocation of a split order in its pool, in as few
+ * transactions as fit the packet size. the transactions must be sent in order, an order that
+ * does not fit in one transaction is not atomic, and fills only the allocations of the
+ * transactions that succeed
+ * @param splitOrderResult allocations of the order, from getSplitOrderResult
+ * @param options options of the swaps, applied to each allocation
+ */
+export async function createSplitOrderSwapTransactions(
+  program: any,
+  splitOrderResult: SplitOrderResult,
+  poolToSwapInfo: Record<string, SwapInfo>,
+  deltafiUser: DeltafiUser,
+  walletPubkey: PublicKey,
+  inputTokenPubkey: PublicKey,
+  outputTokenPubkey: PublicKey,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  options: SwapTransactionOptions = {},
+): Promise<{ transaction: Transaction; signers: Keypair[] }[]> {
+  const swapLegs: SwapLeg[] = splitOrderResult.allocations.map(
+    ({ poolConfig, amountIn, swapResult }) => {
+      const swapInfo = poolToSwapInfo[poolConfig.swapInfo];
+      return {
+        poolConfig,
+        swapInfo,
+        fromToken,
+        toToken,
+        inputAmount: stringToAnchorBn(fromToken, amountIn),
+        minOutputAmount: stringToAnchorBn(toToken, swapResult.amountOutWithSlippage),
+        swapDirection: getSwapDirection(fromToken, toToken, swapInfo),
+        rebateToken: options.rebateToken,
+      };
+    },
+  );
+
+  return createSwapLegsTransactions(
+    program,
+    swapLegs,
+    deltafiUser,
+    walletPubkey,
+    { [fromToken.mint]: inputTokenPubkey, [toToken.mint]: outputTokenPubkey },
+    options,
+  );
+}
+
 export async function createDepositTransaction(
-  poolConfig: any,
+  poolConfig: PoolConfig,
   program: any,
   swapInfo: any,
   userTokenBase: PublicKey,
@@ -308,36 +836,46 @@ export async function createDepositTransaction(
     liquidityProvider: lpPublicKey,
     tokenBase: swapInfo.tokenBase,
     tokenQuote: swapInfo.tokenQuote,
-    pythPriceBase: swapInfo.pythPriceBase,
-    pythPriceQuote: swapInfo.pythPriceQuote,
     userAuthority: userTransferAuthority.publicKey,
     tokenProgram: token.TOKEN_PROGRAM_ID,
   };
 
-  if (swapInfo.swapType.stableSwap) {
+  if (swapInfo.swapType.normalSwap) {
     transaction.add(
-      program.transaction.depositToStableSwap(
+      program.transaction.depositToNormalSwap(
         baseAmount,
         quoteAmount,
         minBaseShare,
         minQuoteShare,
         {
-          accounts: depositAccounts,
+          accounts: { ...depositAccounts, ...getPythPriceAccounts(swapInfo) },
         },
       ),
     );
-  } else {
+  } else if (swapInfo.swapType.stableSwap) {
     transaction.add(
-      program.transaction.depositToNormalSwap(
+      program.transaction.depositToStableSwap(
         baseAmount,
         quoteAmount,
         minBaseShare,
         minQuoteShare,
         {
-          accounts: depositAccounts,
+          accounts: { ...depositAccounts, ...getPythPriceAccounts(swapInfo) },
         },
       ),
     );
+  } else if (swapInfo.swapType.serumSwap) {
+    transaction.add(
+      program.transaction.depositToSerumSwap(baseAmount, quoteAmount, minBaseShare, minQuoteShare, {
+        accounts: {
+          marketConfig: swapInfo.configKey,
+          ...depositAccounts,
+          ...getSerumMarketAccounts(swapInfo),
+        },
+      }),
+    );
+  } else {
+    throw Error("Invalid swap type: " + swapInfo.swapType);
   }
 
   if (lpUser === null) {
@@ -375,7 +913,7 @@ export async function createDepositTransaction(
 }
 
 export async function createWithdrawTransaction(
-  poolConfig: any,
+  poolConfig: PoolConfig,
   program: any,
   swapInfo: any,
   userTokenBase: PublicKey,
@@ -431,12 +969,22 @@ export async function createWithdrawTransaction(
     tokenQuote: swapInfo.tokenQuote,
     adminFeeTokenBase: swapInfo.adminFeeTokenBase,
     adminFeeTokenQuote: swapInfo.adminFeeTokenQuote,
-    pythPriceBase: swapInfo.pythPriceBase,
-    pythPriceQuote: swapInfo.pythPriceQuote,
     userAuthority: walletPubkey,
     tokenProgram: token.TOKEN_PROGRAM_ID,
   };
-  if (swapInfo.swapType.stableSwap) {
+  if (swapInfo.swapType.normalSwap) {
+    transaction.add(
+      program.transaction.withdrawFromNormalSwap(
+        baseShare,
+        quoteShare,
+        minBaseAmount,
+        minQuoteAmount,
+        {
+          accounts: { ...withdrawAccounts, ...getPythPriceAccounts(swapInfo) },
+        },
+      ),
+    );
+  } else if (swapInfo.swapType.stableSwap) {
     transaction.add(
       program.transaction.withdrawFromStableSwap(
         baseShare,
@@ -444,22 +992,28 @@ export async function createWithdrawTransaction(
         minBaseAmount,
         minQuoteAmount,
         {
-          accounts: withdrawAccounts,
+          accounts: { ...withdrawAccounts, ...getPythPriceAccounts(swapInfo) },
         },
       ),
     );
-  } else {
+  } else if (swapInfo.swapType.serumSwap) {
     transaction.add(
-      program.transaction.withdrawFromNormalSwap(
+      program.transaction.withdrawFromSerumSwap(
         baseShare,
         quoteShare,
         minBaseAmount,
         minQuoteAmount,
         {
-          accounts: withdrawAccounts,
+          accounts: {
+            marketConfig: swapInfo.configKey,
+            ...withdrawAccounts,
+            ...getSerumMarketAccounts(swapInfo),
+          },
         },
       ),
     );
+  } else {
+    throw Error("Invalid swap type: " + swapInfo.swapType);
   }
 
   const signers = [];
@@ -480,3 +1034,255 @@ export async function createWithdrawTransaction(
 
   return { transaction, signers };
 }
+
+export async function createDepositToFarmTransaction(
+  poolConfig: PoolConfig,
+  program: any,
+  swapInfo: SwapInfo,
+  walletPubkey: PublicKey,
+  farmUser: FarmUser | null,
+  baseAmount: BN,
+  quoteAmount: BN,
+  farmName: string = "default",
+) {
+  const poolPubkey = new PublicKey(poolConfig.swapInfo);
+  const farmInfo = getFarmInfoPubkey(poolConfig, farmName);
+
+  const [lpPublicKey] = await PublicKey.findProgramAddress(
+    [Buffer.from("LiquidityProvider"), poolPubkey.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+  const [farmUserPubkey, farmUserBump] = await PublicKey.findProgramAddress(
+    [Buffer.from("FarmUser"), farmInfo.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+
+  const transactionCreateFarmUser: Transaction | undefined = (() => {
+    if (!farmUser) {
+      return program.transaction.createFarmUserV2(farmUserBump, {
+        accounts: {
+          marketConfig: swapInfo.configKey,
+          farmInfo,
+          farmUser: farmUserPubkey,
+          owner: walletPubkey,
+          payer: walletPubkey,
+          systemProgram: SystemProgram.programId,
+          rent: SYSVAR_RENT_PUBKEY,
+        },
+      });
+    }
+  })();
+
+  const transactionDeposit: Transaction = program.transaction.depositToFarm(
+    baseAmount,
+    quoteAmount,
+    {
+      accounts: {
+        marketConfig: swapInfo.configKey,
+        swapInfo: poolPubkey,
+        farmInfo,
+        liquidityProvider: lpPublicKey,
+        farmUser: farmUserPubkey,
+        owner: walletPubkey,
+      },
+    },
+  );
+
+  const transaction = mergeTransactions([transactionCreateFarmUser, transactionDeposit]);
+  const signers = [];
+  return { transaction, signers };
+}
+
+export async function createWithdrawFromFarmTransaction(
+  poolConfig: PoolConfig,
+  program: any,
+  swapInfo: SwapInfo,
+  walletPubkey: PublicKey,
+  baseAmount: BN,
+  quoteAmount: BN,
+  farmName: string = "default",
+) {
+  const poolPubkey = new PublicKey(poolConfig.swapInfo);
+  const farmInfo = getFarmInfoPubkey(poolConfig, farmName);
+
+  const [lpPublicKey] = await PublicKey.findProgramAddress(
+    [Buffer.from("LiquidityProvider"), poolPubkey.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+  const [farmUserPubkey] = await PublicKey.findProgramAddress(
+    [Buffer.from("FarmUser"), farmInfo.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+
+  const transaction: Transaction = program.transaction.withdrawFromFarm(baseAmount, quoteAmount, {
+    accounts: {
+      marketConfig: swapInfo.configKey,
+      swapInfo: poolPubkey,
+      farmInfo,
+      liquidityProvider: lpPublicKey,
+      farmUser: farmUserPubkey,
+      owner: walletPubkey,
+    },
+  });
+
+  const signers = [];
+  return { transaction, signers };
+}
+
+export async function createClaimFarmRewardsTransaction(
+  deployConfig: DeploymentConfig,
+  poolConfig: PoolConfig,
+  program: any,
+  walletPubkey: PublicKey,
+  farmName: string = "default",
+) {
+  const poolPubkey = new PublicKey(poolConfig.swapInfo);
+  const farmInfo = getFarmInfoPubkey(poolConfig, farmName);
+
+  const [farmUserPubkey] = await PublicKey.findProgramAddress(
+    [Buffer.from("FarmUser"), farmInfo.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+
+  const { associatedTokenPubkey: userDeltafiToken, transaction: transactionCreateDeltafiToken } =
+    await getOrCreateAssociatedTokenAccountTransaction(
+      program.provider.connection,
+      new PublicKey(deployConfig.deltafiMint),
+      walletPubkey,
+    );
+
+  const transactionClaim: Transaction = program.transaction.claimFarmRewards({
+    accounts: {
+      marketConfig: new PublicKey(deployConfig.marketConfig),
+      swapInfo: poolPubkey,
+      farmInfo,
+      farmUser: farmUserPubkey,
+      userDeltafiToken,
+      swapDeltafiToken: new PublicKey(deployConfig.deltafiToken),
+      owner: walletPubkey,
+      tokenProgram: token.TOKEN_PROGRAM_ID,
+    },
+  });
+
+  const transaction = mergeTransactions([transactionCreateDeltafiToken, transactionClaim]);
+  const signers = [];
+  return { transaction, signers };
+}
+
+type ClaimDeltafiUserRewardsInstruction =
+  | "claimTradeRewards"
+  | "claimReferralRewards"
+  | "claimSwapRewards";
+
+// claimTradeRewards, claimReferralRewards and claimSwapRewards share the same accounts
+async function createClaimDeltafiUserRewardsTransaction(
+  claimInstructions: ClaimDeltafiUserRewardsInstruction[],
+  deployConfig: DeploymentConfig,
+  program: any,
+  walletPubkey: PublicKey,
+) {
+  const marketConfig = new PublicKey(deployConfig.marketConfig);
+  const [deltafiUserPubkey] = await PublicKey.findProgramAddress(
+    [Buffer.from("User"), marketConfig.toBuffer(), walletPubkey.toBuffer()],
+    program.programId,
+  );
+
+  const { associatedTokenPubkey: userDeltafiToken, transaction: transactionCreateDeltafiToken } =
+    await getOrCreateAssociatedTokenAccountTransaction(
+      program.provider.connection,
+      new PublicKey(deployConfig.deltafiMint),
+      walletPubkey,
+    );
+
+  const claimTransactions: Transaction[] = claimInstructions.map((claimInstruction) =>
+    program.transaction[claimInstruction]({
+      accounts: {
+        marketConfig,
+        deltafiUser: deltafiUserPubkey,
+        userDeltafiToken,
+        swapDeltafiToken: new PublicKey(deployConfig.deltafiToken),
+        owner: walletPubkey,
+        tokenProgram: token.TOKEN_PROGRAM_ID,
+      },
+    }),
+  );
+
+  const transaction = mergeTransactions([transactionCreateDeltafiToken, ...claimTransactions]);
+  const signers = [];
+  return { transaction, signers };
+}
+
+export async function createClaimTradeRewardsTransaction(
+  deployConfig: DeploymentConfig,
+  program: any,
+  walletPubkey: PublicKey,
+) {
+  return createClaimDeltafiUserRewardsTransaction(
+    ["claimTradeRewards"],
+    deployConfig,
+    program,
+    walletPubkey,
+  );
+}
+
+export async function createClaimReferralRewardsTransaction(
+  deployConfig: DeploymentConfig,
+  program: any,
+  walletPubkey: PublicKey,
+) {
+  return createClaimDeltafiUserRewardsTransaction(
+    ["claimReferralRewards"],
+    deployConfig,
+    program,
+    walletPubkey,
+  );
+}
+
+export async function createClaimSwapRewardsTransaction(
+  deployConfig: DeploymentConfig,
+  program: any,
+  walletPubkey: PublicKey,
+) {
+  return createClaimDeltafiUserRewardsTransaction(
+    ["claimSwapRewards"],
+    deployConfig,
+    program,
+    walletPubkey,
+  );
+}
+
+// claim every non-zero owed reward of the deltafi user in one transaction
+// swap rewards have no owed amount in the deltafi user, they are claimed only if owedSwapRewards is set
+// returns null if there is no deltafi user or nothing is owed
+export async function createClaimAllRewardsTransaction(
+  deployConfig: DeploymentConfig,
+  program: any,
+  deltafiUser: DeltafiUser | null,
+  walletPubkey: PublicKey,
+  owedSwapRewards: BN = new BN(0),
+) {
+  if (!deltafiUser) {
+    return null;
+  }
+
+  const claimInstructions: ClaimDeltafiUserRewardsInstruction[] = [];
+  if (!deltafiUser.owedTradeRewards.isZero()) {
+    claimInstructions.push("claimTradeRewards");
+  }
+  if (!deltafiUser.owedReferralRewards.isZero()) {
+    claimInstructions.push("claimReferralRewards");
+  }
+  if (!owedSwapRewards.isZero()) {
+    claimInstructions.push("claimSwapRewards");
+  }
+  if (claimInstructions.length === 0) {
+    return null;
+  }
+
+  return createClaimDeltafiUserRewardsTransaction(
+    claimInstructions,
+    deployConfig,
+    program,
+    walletPubkey,
+  );
+}
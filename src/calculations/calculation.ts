@@ -1,11 +1,17 @@
 import BigNumber from "bignumber.js";
 import { BN } from "@project-serum/anchor";
-import { BigNumberWithConfig, validate } from "./utils";
-import { anchorBnToBn, stringCutTokenDecimals } from "./tokenUtils";
+import { BigNumberWithConfig, exponentiate, exponentiatedBy, validate } from "./utils";
+import {
+  anchorBnToBn,
+  anchorBnToString,
+  stringCutTokenDecimals,
+  stringToAnchorBn,
+} from "./tokenUtils";
 import { approximateOutAmount } from "./approximation";
-import { getNormalizedReserves } from "./swapOutAmount";
-import { SwapInfo, PoolState } from "../anchor/type_definitions";
+import { getNormalizedReserves, normalizeMarketPriceWithDecimals } from "./swapOutAmount";
+import { SwapInfo, PoolState, SwapConfig } from "../anchor/type_definitions";
 import { TokenConfig } from "./types";
+import { PriceSource } from "../anchor/price_source";
 
 const FLOAT_ROUND_UP_ESPSILON: number = 0.00000000000000006;
 
@@ -276,6 +282,7 @@ export function calculateOutAmountStableSwap(
   };
 }
 
+// the withdrawal amounts before the withdraw fee, use calculateWithdrawPreview for the amounts paid out
 export function calculateWithdrawalFromShares(
   baseShare: BN,
   quoteShare: BN,
@@ -342,6 +349,171 @@ export function calculateWithdrawalFromShares(
   };
 }
 
+/**
+ * calculateWithdrawalFromShares with the market price from a price source
+ * only the ratio of base and quote prices matters, so the quote price is 1
+ */
+export async function getWithdrawalFromShares(
+  priceSource: PriceSource,
+  swapInfo: SwapInfo,
+  baseShare: BN,
+  quoteShare: BN,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+): Promise<{
+  baseWithdrawalAmount: string;
+  quoteWithdrawalAmount: string;
+}> {
+  const { marketPrice } = await priceSource.getMarketPriceTuple(
+    swapInfo,
+    baseTokenConfig,
+    quoteTokenConfig,
+  );
+  return calculateWithdrawalFromShares(
+    baseShare,
+    quoteShare,
+    baseTokenConfig,
+    quoteTokenConfig,
+    marketPrice,
+    new BigNumber(1),
+    swapInfo.poolState,
+  );
+}
+
+export type TokenWithdrawPreview = {
+  // amounts in UI unit
+  grossAmount: string;
+  lpFee: string;
+  adminFee: string;
+  netAmount: string;
+  // amounts in raw unit
+  grossAmountBN: BN;
+  lpFeeBN: BN;
+  adminFeeBN: BN;
+  netAmountBN: BN;
+};
+
+/**
+ * split the withdraw fee of a withdrawn amount, in raw unit, the same way as the program
+ * - withdrawFee = grossAmount * withdrawFeeNumerator / withdrawFeeDenominator
+ * - adminFee = withdrawFee * adminWithdrawFeeNumerator / adminWithdrawFeeDenominator, it leaves the pool
+ * - lpFee = withdrawFee - adminFee, it stays in the pool
+ * - netAmount = grossAmount - withdrawFee, it is transferred to the user
+ * all the divisions round down, and a zero denominator means no fee
+ */
+export function calculateWithdrawFees(
+  grossAmount: BN,
+  swapConfig: SwapConfig,
+): {
+  withdrawFee: BN;
+  lpFee: BN;
+  adminFee: BN;
+  netAmount: BN;
+} {
+  const mulDivFloor = (amount: BN, numerator: number, denominator: number) =>
+    denominator === 0 ? new BN(0) : amount.mul(new BN(numerator)).div(new BN(denominator));
+
+  const withdrawFee = mulDivFloor(
+    grossAmount,
+    swapConfig.withdrawFeeNumerator,
+    swapConfig.withdrawFeeDenominator,
+  );
+  const adminFee = mulDivFloor(
+    withdrawFee,
+    swapConfig.adminWithdrawFeeNumerator,
+    swapConfig.adminWithdrawFeeDenominator,
+  );
+  return {
+    withdrawFee,
+    lpFee: withdrawFee.sub(adminFee),
+    adminFee,
+    netAmount: grossAmount.sub(withdrawFee),
+  };
+}
+
+/**
+ * preview a withdrawal with the withdraw fee and the admin withdraw fee of the pool
+ * the gross amounts are from calculateWithdrawalFromShares, and the fees from calculateWithdrawFees
+ * the min amounts of a withdraw transaction should be derived from the net amounts
+ * @returns gross amount, LP fee, admin fee and net amount of base and quote tokens
+ */
+export function calculateWithdrawPreview(
+  baseShare: BN,
+  quoteShare: BN,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+  basePrice: BigNumber,
+  quotePrice: BigNumber,
+  swapInfo: SwapInfo,
+): {
+  base: TokenWithdrawPreview;
+  quote: TokenWithdrawPreview;
+} {
+  const { baseWithdrawalAmount, quoteWithdrawalAmount } = calculateWithdrawalFromShares(
+    baseShare,
+    quoteShare,
+    baseTokenConfig,
+    quoteTokenConfig,
+    basePrice,
+    quotePrice,
+    swapInfo.poolState,
+  );
+
+  const getTokenWithdrawPreview = (
+    tokenConfig: TokenConfig,
+    grossAmount: string,
+  ): TokenWithdrawPreview => {
+    const grossAmountBN = stringToAnchorBn(tokenConfig, grossAmount);
+    const { lpFee, adminFee, netAmount } = calculateWithdrawFees(
+      grossAmountBN,
+      swapInfo.swapConfig,
+    );
+    return {
+      grossAmount: anchorBnToString(tokenConfig, grossAmountBN),
+      lpFee: anchorBnToString(tokenConfig, lpFee),
+      adminFee: anchorBnToString(tokenConfig, adminFee),
+      netAmount: anchorBnToString(tokenConfig, netAmount),
+      grossAmountBN,
+      lpFeeBN: lpFee,
+      adminFeeBN: adminFee,
+      netAmountBN: netAmount,
+    };
+  };
+
+  return {
+    base: getTokenWithdrawPreview(baseTokenConfig, baseWithdrawalAmount),
+    quote: getTokenWithdrawPreview(quoteTokenConfig, quoteWithdrawalAmount),
+  };
+}
+
+// calculateWithdrawPreview with the market price from a price source
+export async function getWithdrawPreview(
+  priceSource: PriceSource,
+  swapInfo: SwapInfo,
+  baseShare: BN,
+  quoteShare: BN,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+): Promise<{
+  base: TokenWithdrawPreview;
+  quote: TokenWithdrawPreview;
+}> {
+  const { marketPrice } = await priceSource.getMarketPriceTuple(
+    swapInfo,
+    baseTokenConfig,
+    quoteTokenConfig,
+  );
+  return calculateWithdrawPreview(
+    baseShare,
+    quoteShare,
+    baseTokenConfig,
+    quoteTokenConfig,
+    marketPrice,
+    new BigNumber(1),
+    swapInfo,
+  );
+}
+
 interface tokenShareInfo {
   price: BigNumber;
   share: BigNumber;
@@ -387,7 +559,8 @@ export function calculateWithdrawFromSharesAndBalances(
 }
 
 // Calculate expected output from Deposit multiplied by minCoeff
-// Checks if its normalSwap or stableSwap and adjusts initial splitByRatio accordingly
+// Checks if its normalSwap/serumSwap or stableSwap and adjusts initial splitByRatio accordingly
+// amounts and shares are in raw unit, the market price is normalized with the token decimals
 export function calculateMinOutAmountDeposit(
   swapInfo: SwapInfo,
   baseAmount: BigNumber,
@@ -399,7 +572,7 @@ export function calculateMinOutAmountDeposit(
   minQuoteShare: BigNumber;
 } {
   const poolState: PoolState = swapInfo.poolState;
-  const denominator: BigNumber = swapInfo.swapType.normalSwap ? marketPrice : new BigNumber(1);
+  const denominator: BigNumber = swapInfo.swapType.stableSwap ? new BigNumber(1) : marketPrice;
 
   const { base, quote } = splitByRatio(baseAmount, quoteAmount, new BigNumber(1), denominator);
 
@@ -429,6 +602,42 @@ export function calculateMinOutAmountDeposit(
   };
 }
 
+// calculateMinOutAmountDeposit with the market price from a price source
+// amounts and shares are in UI unit, they are converted to raw unit for the calculation
+export async function getMinOutAmountDeposit(
+  priceSource: PriceSource,
+  swapInfo: SwapInfo,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+  baseAmount: BigNumber,
+  quoteAmount: BigNumber,
+  minCoeff: BigNumber,
+): Promise<{
+  minBaseShare: BigNumber;
+  minQuoteShare: BigNumber;
+}> {
+  const { marketPrice } = await priceSource.getMarketPriceTuple(
+    swapInfo,
+    baseTokenConfig,
+    quoteTokenConfig,
+  );
+  const { minBaseShare, minQuoteShare } = calculateMinOutAmountDeposit(
+    swapInfo,
+    exponentiate(baseAmount, baseTokenConfig.decimals),
+    exponentiate(quoteAmount, quoteTokenConfig.decimals),
+    normalizeMarketPriceWithDecimals(
+      marketPrice,
+      swapInfo.mintBaseDecimals,
+      swapInfo.mintQuoteDecimals,
+    ),
+    minCoeff,
+  );
+  return {
+    minBaseShare: exponentiatedBy(minBaseShare, baseTokenConfig.decimals),
+    minQuoteShare: exponentiatedBy(minQuoteShare, quoteTokenConfig.decimals),
+  };
+}
+
 // Split (base, quote) into (base_main, quote_main, base_residual, quote_residual)
 // - base_main/quote_main = numerator/denominator
 // - base_main + base_residual = base
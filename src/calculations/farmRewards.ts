@@ -0,0 +1,172 @@
+import BigNumber from "bignumber.js";
+import { FarmConfig, FarmInfo, FarmPosition, FarmUser, SwapInfo } from "../anchor/type_definitions";
+import { DELTAFI_TOKEN_DECIMALS, exponentiatedBy } from "./utils";
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export type FarmUserRewards = {
+  baseRewardsOwed: string;
+  quoteRewardsOwed: string;
+  totalRewardsOwed: string;
+  nextClaimTs: number;
+  canClaim: boolean;
+};
+
+/**
+ * project the rewards of a farm position at a given timestamp
+ * the position accrues interest linearly from its lastUpdateTs, until the farm's endTimestamp:
+ * - interest = depositedAmount * aprNumerator / aprDenominator * elapsedSeconds / SECONDS_PER_YEAR
+ * - rewardsOwed and cumulativeInterest both grow by the interest
+ * @param position base or quote position of the farm user
+ * @param aprNumerator base or quote apr numerator of the farm config
+ * @param aprDenominator base or quote apr denominator of the farm config
+ * @param endTimestamp farm's end timestamp, 0 if the farm has no end
+ * @param currentTs the timestamp to project the rewards at, in seconds
+ * @returns projected rewardsOwed and cumulativeInterest, in DELFI raw unit
+ */
+export function calculateFarmPositionRewards(
+  position: FarmPosition,
+  aprNumerator: BigNumber,
+  aprDenominator: BigNumber,
+  endTimestamp: number,
+  currentTs: number,
+): {
+  rewardsOwed: BigNumber;
+  cumulativeInterest: BigNumber;
+} {
+  const rewardsOwed = new BigNumber(position.rewardsOwed.toString());
+  const cumulativeInterest = new BigNumber(position.cumulativeInterest.toString());
+
+  const lastUpdateTs = position.lastUpdateTs.toNumber();
+  const accrualEndTs = endTimestamp > 0 ? Math.min(currentTs, endTimestamp) : currentTs;
+  if (accrualEndTs <= lastUpdateTs || aprDenominator.isZero()) {
+    return { rewardsOwed, cumulativeInterest };
+  }
+
+  const interest = new BigNumber(position.depositedAmount.toString())
+    .multipliedBy(aprNumerator)
+    .multipliedBy(accrualEndTs - lastUpdateTs)
+    .dividedBy(aprDenominator)
+    .dividedBy(SECONDS_PER_YEAR)
+    .integerValue(BigNumber.ROUND_FLOOR);
+
+  return {
+    rewardsOwed: rewardsOwed.plus(interest),
+    cumulativeInterest: cumulativeInterest.plus(interest),
+  };
+}
+
+/**
+ * project the pending rewards of a farm user at a given timestamp
+ * @param farmConfig farm config of the farm info
+ * @param farmUser farm user account data
+ * @param currentTs the timestamp to project the rewards at, in seconds
+ * @returns pending rewards in DELFI UI unit, and when the next claim becomes valid
+ */
+export function getFarmUserRewards(
+  farmConfig: FarmConfig,
+  farmUser: FarmUser,
+  currentTs: number,
+): FarmUserRewards {
+  const endTimestamp = farmConfig.endTimestamp.toNumber();
+  const { rewardsOwed: baseRewardsOwed } = calculateFarmPositionRewards(
+    farmUser.basePosition,
+    new BigNumber(farmConfig.baseAprNumerator.toString()),
+    new BigNumber(farmConfig.baseAprDenominator.toString()),
+    endTimestamp,
+    currentTs,
+  );
+  const { rewardsOwed: quoteRewardsOwed } = calculateFarmPositionRewards(
+    farmUser.quotePosition,
+    new BigNumber(farmConfig.quoteAprNumerator.toString()),
+    new BigNumber(farmConfig.quoteAprDenominator.toString()),
+    endTimestamp,
+    currentTs,
+  );
+
+  // rewards of both positions are claimed together, the later claim time applies
+  const nextClaimTs = Math.max(
+    farmUser.basePosition.nextClaimTs.toNumber(),
+    farmUser.quotePosition.nextClaimTs.toNumber(),
+  );
+
+  const toDisplay = (amount: BigNumber) =>
+    exponentiatedBy(amount, DELTAFI_TOKEN_DECIMALS).toFixed(DELTAFI_TOKEN_DECIMALS);
+
+  return {
+    baseRewardsOwed: toDisplay(baseRewardsOwed),
+    quoteRewardsOwed: toDisplay(quoteRewardsOwed),
+    totalRewardsOwed: toDisplay(baseRewardsOwed.plus(quoteRewardsOwed)),
+    nextClaimTs,
+    canClaim: currentTs >= nextClaimTs,
+  };
+}
+
+// after a claim at claimTs, the next claim is valid after the farm's min claim period
+export function getNextClaimTs(farmConfig: FarmConfig, claimTs: number): number {
+  return claimTs + farmConfig.minClaimPeriod;
+}
+
+/**
+ * calculate the USD APR of staking base and quote shares in a farm
+ * - apr = yearly DELFI rewards of a share * deltafiPrice / value of the share
+ * - value of the share = reserve / supply * tokenPrice
+ * @param farmInfo farm info account data
+ * @param swapInfo pool of the farm
+ * @param basePrice USD price of the base token, usually from pyth
+ * @param quotePrice USD price of the quote token, usually from pyth
+ * @param deltafiPrice USD price of DELFI
+ * @returns base and quote APR, as ratio (0.1 means 10%), NaN if the pool has no supply
+ */
+export function calculateFarmApr(
+  farmInfo: FarmInfo,
+  swapInfo: SwapInfo,
+  basePrice: BigNumber,
+  quotePrice: BigNumber,
+  deltafiPrice: BigNumber,
+): {
+  baseApr: BigNumber;
+  quoteApr: BigNumber;
+} {
+  const { farmConfig } = farmInfo;
+  const { poolState } = swapInfo;
+
+  const getApr = (
+    aprNumerator: BigNumber,
+    aprDenominator: BigNumber,
+    reserve: BigNumber,
+    supply: BigNumber,
+    decimals: number,
+    price: BigNumber,
+  ) => {
+    if (supply.isZero() || aprDenominator.isZero()) {
+      return new BigNumber(NaN);
+    }
+    // yearly rewards of one share in raw unit, converted to DELFI UI unit
+    const yearlyRewardValue = exponentiatedBy(
+      aprNumerator.dividedBy(aprDenominator),
+      DELTAFI_TOKEN_DECIMALS,
+    ).multipliedBy(deltafiPrice);
+    const shareValue = exponentiatedBy(reserve.dividedBy(supply), decimals).multipliedBy(price);
+    return yearlyRewardValue.dividedBy(shareValue);
+  };
+
+  return {
+    baseApr: getApr(
+      new BigNumber(farmConfig.baseAprNumerator.toString()),
+      new BigNumber(farmConfig.baseAprDenominator.toString()),
+      new BigNumber(poolState.baseReserve.toString()),
+      new BigNumber(poolState.baseSupply.toString()),
+      swapInfo.mintBaseDecimals,
+      basePrice,
+    ),
+    quoteApr: getApr(
+      new BigNumber(farmConfig.quoteAprNumerator.toString()),
+      new BigNumber(farmConfig.quoteAprDenominator.toString()),
+      new BigNumber(poolState.quoteReserve.toString()),
+      new BigNumber(poolState.quoteSupply.toString()),
+      swapInfo.mintQuoteDecimals,
+      quotePrice,
+    ),
+  };
+}
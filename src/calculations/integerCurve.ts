@@ -0,0 +1,541 @@
+import BigNumber from "bignumber.js";
+import { PoolState, SwapConfig, SwapDirection, SwapInfo } from "../anchor/type_definitions";
+import { validate, WAD, WAD_LENGTH } from "./utils";
+
+/**
+ * integer implementation of the normal swap and stable swap curves
+ * all values are bigint, prices and ratios are fixed-point decimals scaled by WAD (u128-style),
+ * token amounts are raw integer amounts (u64-style)
+ * the normal swap follows the program's steps, see "Approximation Method" in
+ * deltafi-dex-v2/contracts/programs/deltafi-dex-v2/src/curve/README.md: the max of the
+ * approximation result and the calculation result, bounded by the implied out amount
+ * every step rounds against the trader, so the out amount is never larger than the ideal result
+ */
+
+const WAD_BIGINT = BigInt(WAD.toFixed(0));
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const FOUR = BigInt(4);
+const HUNDRED = BigInt(100);
+// the approximation method supports an exponent up to u8
+const MAX_APPROXIMATION_EXPONENT = BigInt((1 << 8) - 1);
+// precision of the fractional part of an exponent, in bits
+const EXPONENT_FRACTION_BITS = 60;
+
+// convert a BigNumber to bigint, rounding down
+export function toBigIntFloor(value: BigNumber): bigint {
+  return BigInt(value.integerValue(BigNumber.ROUND_FLOOR).toFixed(0));
+}
+
+// convert a BigNumber to a WAD scaled bigint, rounding down
+export function toWadFloor(value: BigNumber): bigint {
+  return BigInt(value.shiftedBy(WAD_LENGTH).integerValue(BigNumber.ROUND_FLOOR).toFixed(0));
+}
+
+export function divFloor(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const isNegative = numerator < ZERO !== denominator < ZERO;
+  return isNegative && quotient * denominator !== numerator ? quotient - ONE : quotient;
+}
+
+export function divCeil(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const isPositive = numerator < ZERO === denominator < ZERO;
+  return isPositive && quotient * denominator !== numerator ? quotient + ONE : quotient;
+}
+
+// square root of a non-negative integer, rounding down
+export function sqrtFloor(value: bigint): bigint {
+  if (value < ZERO) {
+    throw Error("Square root of negative value: " + value.toString());
+  }
+  if (value < TWO) {
+    return value;
+  }
+  // newton's method from an initial guess larger than the root
+  let x = ONE << BigInt(Math.ceil(value.toString(2).length / 2));
+  let y = (x + value / x) / TWO;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / TWO;
+  }
+  return x;
+}
+
+// square root of a non-negative integer, rounding up
+export function sqrtCeil(value: bigint): bigint {
+  const root = sqrtFloor(value);
+  return root * root === value ? root : root + ONE;
+}
+
+function mulWadCeil(a: bigint, b: bigint): bigint {
+  return divCeil(a * b, WAD_BIGINT);
+}
+
+function abs(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+// convert an anchor BN or a number to bigint
+function toBigInt(value: { toString(): string }): bigint {
+  return BigInt(value.toString());
+}
+
+// base^exponent of a WAD scaled base and an integer exponent, by squaring, rounding up
+export function powWadCeilInteger(base: bigint, exponent: bigint): bigint {
+  let result = WAD_BIGINT;
+  let square = base;
+  let remainingExponent = exponent;
+  while (remainingExponent > ZERO) {
+    if (remainingExponent % TWO === ONE) {
+      result = mulWadCeil(result, square);
+    }
+    remainingExponent /= TWO;
+    if (remainingExponent > ZERO) {
+      square = mulWadCeil(square, square);
+    }
+  }
+  return result;
+}
+
+/**
+ * base^exponent of WAD scaled values, rounding up
+ * - the integer part of the exponent is calculated by exponentiation by squaring
+ * - the fractional part is calculated bit by bit, with base^(1/2^i) from repeated square roots
+ * the fractional part of the exponent is truncated to EXPONENT_FRACTION_BITS bits
+ */
+export function powWadCeil(base: bigint, exponent: bigint): bigint {
+  if (base <= ZERO || exponent < ZERO) {
+    throw Error("Invalid power: " + base.toString() + " " + exponent.toString());
+  }
+
+  let result = powWadCeilInteger(base, exponent / WAD_BIGINT);
+
+  let fractionalPart = exponent % WAD_BIGINT;
+  let root = base;
+  for (let i = 0; i < EXPONENT_FRACTION_BITS && fractionalPart > ZERO; i++) {
+    root = sqrtCeil(root * WAD_BIGINT);
+    fractionalPart *= TWO;
+    if (fractionalPart >= WAD_BIGINT) {
+      fractionalPart -= WAD_BIGINT;
+      result = mulWadCeil(result, root);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * integer version of calculateOutAmountNormalSwapInternal, the formula is:
+ * - token_b_output = b - b * ((a / (a + m))^(P * A / B))
+ * @param marketPrice P, WAD scaled
+ * @returns raw out amount, null if a + m is not positive
+ */
+export function calculateOutAmountNormalSwapInternalInteger(
+  marketPrice: bigint,
+  targetReserveA: bigint,
+  targetReserveB: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  inputAAmount: bigint,
+): bigint | null {
+  const coreDenominator = currentReserveA + inputAAmount;
+  if (coreDenominator <= ZERO) {
+    return null;
+  }
+  if (inputAAmount === ZERO) {
+    return ZERO;
+  }
+
+  // ceil the core and floor the exp, so core^exp is rounded up
+  const core = divCeil(currentReserveA * WAD_BIGINT, coreDenominator);
+  const exp = divFloor(marketPrice * targetReserveA, targetReserveB);
+  const coreExp = powWadCeil(core, exp);
+
+  return currentReserveB - divCeil(currentReserveB * coreExp, WAD_BIGINT);
+}
+
+/**
+ * integer version of approximateUpperBoundK, with the integer exponent ceil(P * A / B)
+ * - k = coreHigh / coreLow
+ * - coreHigh = (a / (a + m))^ceil(P * A / B), rounded up
+ * - coreLow = 1 - (m / a) * ceil(P * A / B), rounded down
+ * @returns k, WAD scaled
+ */
+export function approximateUpperBoundKInteger(
+  currentReserveA: bigint,
+  inputAAmount: bigint,
+  expCeil: bigint,
+): bigint {
+  const coreHigh = powWadCeilInteger(
+    divCeil(currentReserveA * WAD_BIGINT, currentReserveA + inputAAmount),
+    expCeil,
+  );
+  const coreLow = divFloor(
+    (currentReserveA - inputAAmount * expCeil) * WAD_BIGINT,
+    currentReserveA,
+  );
+  return divCeil(coreHigh * WAD_BIGINT, coreLow);
+}
+
+/**
+ * integer version of approximateOutAmount
+ * - implied_out_amount = m * (b / a) * P * (A / B)
+ * - approximation_result = implied_out_amount - (b - implied_out_amount) * (k - 1)
+ * the approximation result is calculated from the exact implied out amount and rounded down once
+ * @param marketPrice P, WAD scaled
+ * @returns raw implied out amount, and the raw approximation result,
+ *   null if the approximation does not apply to the trade
+ */
+export function approximateOutAmountInteger(
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  targetReserveA: bigint,
+  targetReserveB: bigint,
+  marketPrice: bigint,
+  inputAAmount: bigint,
+): {
+  impliedOutAmount: bigint;
+  approximationResult: bigint | null;
+} {
+  // implied_out_amount = impliedNumerator / impliedDenominator
+  const impliedNumerator = currentReserveB * inputAAmount * marketPrice * targetReserveA;
+  const impliedDenominator = targetReserveB * currentReserveA * WAD_BIGINT;
+  const impliedOutAmount = divFloor(impliedNumerator, impliedDenominator);
+
+  const expCeil = divCeil(marketPrice * targetReserveA, targetReserveB * WAD_BIGINT);
+  validate(expCeil < MAX_APPROXIMATION_EXPONENT, "exponent is too large");
+  // the approximation works when trading amount is much smaller than reserve
+  if (currentReserveA <= inputAAmount * expCeil || currentReserveB <= inputAAmount) {
+    return { impliedOutAmount, approximationResult: null };
+  }
+
+  // (b - implied_out_amount) * (k - 1), scaled by impliedDenominator * WAD
+  const kProduct = approximateUpperBoundKInteger(currentReserveA, inputAAmount, expCeil);
+  const diffFromImpliedAmount =
+    (kProduct - WAD_BIGINT) * (currentReserveB * impliedDenominator - impliedNumerator);
+  if (abs(impliedNumerator) * WAD_BIGINT < diffFromImpliedAmount) {
+    return { impliedOutAmount, approximationResult: null };
+  }
+
+  const approximationResult = divFloor(
+    impliedNumerator * WAD_BIGINT - diffFromImpliedAmount,
+    impliedDenominator * WAD_BIGINT,
+  );
+  validate(
+    approximationResult <= impliedOutAmount,
+    "approximation result should not be larger than the implied out amount",
+  );
+
+  return { impliedOutAmount, approximationResult };
+}
+
+/**
+ * integer version of calculateOutAmountNormalSwap
+ * the max of the approximation result and the calculation result, both are no more than
+ * the ideal result, so the max of them is the closer one
+ * @param marketPrice P, WAD scaled
+ * @returns raw out amount, null if neither the approximation nor the calculation applies
+ */
+export function calculateOutAmountNormalSwapInteger(
+  marketPrice: bigint,
+  targetReserveA: bigint,
+  targetReserveB: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  inputAAmount: bigint,
+): bigint | null {
+  const { impliedOutAmount, approximationResult } = approximateOutAmountInteger(
+    currentReserveA,
+    currentReserveB,
+    targetReserveA,
+    targetReserveB,
+    marketPrice,
+    inputAAmount,
+  );
+  const calculationResult = calculateOutAmountNormalSwapInternalInteger(
+    marketPrice,
+    targetReserveA,
+    targetReserveB,
+    currentReserveA,
+    currentReserveB,
+    inputAAmount,
+  );
+
+  const outAmount =
+    approximationResult === null ||
+    (calculationResult !== null && calculationResult > approximationResult)
+      ? calculationResult
+      : approximationResult;
+  validate(
+    outAmount === null || outAmount <= impliedOutAmount,
+    "final result for swap out amount should not be larger than the implied out amount",
+  );
+
+  return outAmount;
+}
+
+/**
+ * integer version of calculateBalancedReservesStableSwap
+ * balanced_reserve_a is the positive solution of coef_a*x^2 + coef_b*x + coef_c = 0
+ * @param stablePrice WAD scaled
+ * @param slope WAD scaled
+ * @returns raw balanced reserves
+ */
+export function calculateBalancedReservesStableSwapInteger(
+  stablePrice: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  slope: bigint,
+): { balancedReserveA: bigint; balancedReserveB: bigint } {
+  // coef_a = (2 - s) * P, WAD scaled
+  const coefA = divFloor((TWO * WAD_BIGINT - slope) * stablePrice, WAD_BIGINT);
+  // -coef_b = (1 - s) * (P * a + b), scaled by WAD
+  const coefBNeg = divFloor(
+    (WAD_BIGINT - slope) * (stablePrice * currentReserveA + currentReserveB * WAD_BIGINT),
+    WAD_BIGINT,
+  );
+  // -coef_c = s * a * b, scaled by WAD
+  const coefCNeg = slope * currentReserveA * currentReserveB;
+
+  // need to ceil the sqrt, the discriminant is scaled by WAD^2
+  const core = sqrtCeil(coefBNeg * coefBNeg + FOUR * coefA * coefCNeg);
+
+  // need to ceil the div
+  const balancedReserveA = divCeil(coefBNeg + core, TWO * coefA);
+  const balancedReserveB = divFloor(balancedReserveA * stablePrice, WAD_BIGINT);
+
+  return { balancedReserveA, balancedReserveB };
+}
+
+/**
+ * integer version of calculateOutAmountStableSwapInternal, the formula is:
+ * - token_b_output = (b + (1 - s)/s * B) * (1 - (s * a + (1 - s) * A)/(s * (a + m) + (1 - s) * A))
+ * @param slope WAD scaled
+ * @returns raw out amount, null if the core denominator is not positive
+ */
+export function calculateOutAmountStableSwapInteger(
+  balancedReserveA: bigint,
+  balancedReserveB: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  inputAAmount: bigint,
+  slope: bigint,
+): bigint | null {
+  const coreDenominator =
+    (WAD_BIGINT - slope) * balancedReserveA + slope * (currentReserveA + inputAAmount);
+  if (coreDenominator <= ZERO) {
+    return null;
+  }
+
+  // need to floor the multiplicand
+  const multiplicand = divFloor(balancedReserveB * (WAD_BIGINT - slope), slope) + currentReserveB;
+
+  const coreNumerator = (WAD_BIGINT - slope) * balancedReserveA + slope * currentReserveA;
+  // ceil the ratio, so the multiplier is rounded down
+  const multiplier = WAD_BIGINT - divCeil(coreNumerator * WAD_BIGINT, coreDenominator);
+
+  return divFloor(multiplicand * multiplier, WAD_BIGINT);
+}
+
+/**
+ * virtual reserves of the pool, in raw amounts rounded down
+ * - normalized_reserve = (base_reserve * P + quote_reserve) /
+ *   (target_base_reserve * P + target_quote_reserve) * target_reserve
+ * - virtual_reserve = normalized_reserve * virtual_reserve_percentage / 100
+ * @param marketPrice normalized market price, WAD scaled
+ */
+export function getVirtualReservesInteger(
+  poolState: PoolState,
+  swapConfig: SwapConfig,
+  marketPrice: bigint,
+): {
+  virtualBaseReserve: bigint;
+  virtualQuoteReserve: bigint;
+} {
+  const targetBaseReserve = toBigInt(poolState.targetBaseReserve);
+  const targetQuoteReserve = toBigInt(poolState.targetQuoteReserve);
+  const coefNumerator =
+    toBigInt(poolState.baseReserve) * marketPrice + toBigInt(poolState.quoteReserve) * WAD_BIGINT;
+  const coefDenominator = targetBaseReserve * marketPrice + targetQuoteReserve * WAD_BIGINT;
+  if (coefDenominator === ZERO) {
+    return { virtualBaseReserve: ZERO, virtualQuoteReserve: ZERO };
+  }
+
+  const virtualReservePercentage = BigInt(swapConfig.virtualReservePercentage);
+  return {
+    virtualBaseReserve: divFloor(
+      coefNumerator * targetBaseReserve * virtualReservePercentage,
+      coefDenominator * HUNDRED,
+    ),
+    virtualQuoteReserve: divFloor(
+      coefNumerator * targetQuoteReserve * virtualReservePercentage,
+      coefDenominator * HUNDRED,
+    ),
+  };
+}
+
+// trade fee of the raw amount out before the trade fee, rounded up
+export function calculateTradeFeeInteger(grossAmountOut: bigint, swapConfig: SwapConfig): bigint {
+  return swapConfig.tradeFeeDenominator > 0
+    ? divCeil(
+        grossAmountOut * BigInt(swapConfig.tradeFeeNumerator),
+        BigInt(swapConfig.tradeFeeDenominator),
+      )
+    : ZERO;
+}
+
+// out amount and price impact of the integer normal swap curve
+function calculateOutAmountNormalSwapWithIntegerCurve(
+  marketPrice: bigint,
+  targetReserveA: bigint,
+  targetReserveB: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  inputAAmount: bigint,
+): {
+  outAmount: BigNumber;
+  priceImpact: BigNumber;
+} {
+  const outAmount = calculateOutAmountNormalSwapInteger(
+    marketPrice,
+    targetReserveA,
+    targetReserveB,
+    currentReserveA,
+    currentReserveB,
+    inputAAmount,
+  );
+  const outAmountBN = new BigNumber(outAmount === null ? -Infinity : outAmount.toString());
+
+  if (inputAAmount === ZERO) {
+    return { outAmount: outAmountBN, priceImpact: new BigNumber(0) };
+  }
+
+  const impliedPrice: BigNumber = new BigNumber(marketPrice.toString())
+    .shiftedBy(-WAD_LENGTH)
+    .multipliedBy(currentReserveB.toString())
+    .multipliedBy(targetReserveA.toString())
+    .dividedBy(currentReserveA.toString())
+    .dividedBy(targetReserveB.toString());
+  const actualPrice: BigNumber = outAmountBN.dividedBy(inputAAmount.toString());
+  const priceImpact: BigNumber = actualPrice.isFinite()
+    ? impliedPrice.minus(actualPrice).dividedBy(actualPrice).abs()
+    : new BigNumber(Infinity);
+
+  return { outAmount: outAmountBN, priceImpact };
+}
+
+// out amount and price impact of the integer stable swap curve
+function calculateOutAmountStableSwapWithIntegerCurve(
+  stablePrice: bigint,
+  currentReserveA: bigint,
+  currentReserveB: bigint,
+  inputAAmount: bigint,
+  slope: bigint,
+): {
+  outAmount: BigNumber;
+  priceImpact: BigNumber;
+} {
+  const { balancedReserveA, balancedReserveB } = calculateBalancedReservesStableSwapInteger(
+    stablePrice,
+    currentReserveA,
+    currentReserveB,
+    slope,
+  );
+  const outAmount = calculateOutAmountStableSwapInteger(
+    balancedReserveA,
+    balancedReserveB,
+    currentReserveA,
+    currentReserveB,
+    inputAAmount,
+    slope,
+  );
+  const outAmountBN = new BigNumber(outAmount === null ? -Infinity : outAmount.toString());
+
+  const slopeBN = new BigNumber(slope.toString()).shiftedBy(-WAD_LENGTH);
+  const slopeRatio = new BigNumber(1).minus(slopeBN).dividedBy(slopeBN);
+  const impliedPrice: BigNumber = new BigNumber(currentReserveB.toString())
+    .plus(new BigNumber(balancedReserveB.toString()).multipliedBy(slopeRatio))
+    .dividedBy(
+      new BigNumber(currentReserveA.toString()).plus(
+        new BigNumber(balancedReserveA.toString()).multipliedBy(slopeRatio),
+      ),
+    );
+  const actualPrice: BigNumber = outAmountBN.dividedBy(inputAAmount.toString());
+  const priceImpact: BigNumber = impliedPrice.minus(actualPrice).dividedBy(actualPrice).abs();
+
+  return { outAmount: outAmountBN, priceImpact };
+}
+
+/**
+ * integer version of getSwapOutAmountSellBase and getSwapOutAmountSellQuote
+ * the inputs are converted to integers once, the raw amount in and the market price are rounded
+ * down, and the virtual reserves are calculated from the integer reserves
+ * @param amountIn raw amount in of the input token
+ * @param marketPrice normalized market price, baseTokenPrice / quoteTokenPrice
+ * @returns raw amount out of the output token
+ */
+export function getSwapOutAmountWithIntegerCurve(
+  pool: SwapInfo,
+  swapDirection: SwapDirection,
+  amountIn: BigNumber,
+  marketPrice: BigNumber,
+): { outAmount: BigNumber; priceImpact: BigNumber } {
+  const { poolState, swapConfig } = pool;
+  const rawAmountIn = toBigIntFloor(amountIn);
+  const marketPriceWad = toWadFloor(marketPrice);
+
+  // serum swap uses the same curve as normal swap, with the market price from the serum order book
+  if (pool.swapType.normalSwap || pool.swapType.serumSwap) {
+    const { virtualBaseReserve, virtualQuoteReserve } = getVirtualReservesInteger(
+      poolState,
+      swapConfig,
+      marketPriceWad,
+    );
+    const baseReserve = toBigInt(poolState.baseReserve) + virtualBaseReserve;
+    const quoteReserve = toBigInt(poolState.quoteReserve) + virtualQuoteReserve;
+    if (swapDirection.sellBase) {
+      return calculateOutAmountNormalSwapWithIntegerCurve(
+        marketPriceWad,
+        toBigInt(poolState.targetBaseReserve),
+        toBigInt(poolState.targetQuoteReserve),
+        baseReserve,
+        quoteReserve,
+        rawAmountIn,
+      );
+    }
+    // the market price for calculation is the reciprocal of the market price input
+    return calculateOutAmountNormalSwapWithIntegerCurve(
+      divFloor(WAD_BIGINT * WAD_BIGINT, marketPriceWad),
+      toBigInt(poolState.targetQuoteReserve),
+      toBigInt(poolState.targetBaseReserve),
+      quoteReserve,
+      baseReserve,
+      rawAmountIn,
+    );
+  } else if (pool.swapType.stableSwap) {
+    // stable price is 1, normalized by the base and quote decimals
+    const stablePrice = toWadFloor(
+      new BigNumber(10).pow(pool.mintQuoteDecimals - pool.mintBaseDecimals),
+    );
+    const slope = toBigInt(swapConfig.slope);
+    return swapDirection.sellBase
+      ? calculateOutAmountStableSwapWithIntegerCurve(
+          stablePrice,
+          toBigInt(poolState.baseReserve),
+          toBigInt(poolState.quoteReserve),
+          rawAmountIn,
+          slope,
+        )
+      : calculateOutAmountStableSwapWithIntegerCurve(
+          divFloor(WAD_BIGINT * WAD_BIGINT, stablePrice),
+          toBigInt(poolState.quoteReserve),
+          toBigInt(poolState.baseReserve),
+          rawAmountIn,
+          slope,
+        );
+  }
+
+  throw Error("Wrong swaptype: " + pool.swapType);
+}
@@ -0,0 +1,105 @@
+import BigNumber from "bignumber.js";
+import { LiquidityProvider, PoolState } from "../anchor/type_definitions";
+import { calculateWithdrawalFromShares } from "./calculation";
+import { anchorBnToBn, anchorBnToString } from "./tokenUtils";
+import { TokenConfig } from "./types";
+
+export type LiquidityPosition = {
+  // shares in UI unit, free shares are the shares not staked in farms
+  baseShare: string;
+  quoteShare: string;
+  stakedBaseShare: string;
+  stakedQuoteShare: string;
+  freeBaseShare: string;
+  freeQuoteShare: string;
+  // share of the pool's baseSupply and quoteSupply, as ratio (0.1 means 10%)
+  basePoolShare: string;
+  quotePoolShare: string;
+  // token amounts redeemable from all the shares, in UI unit
+  baseAmount: string;
+  quoteAmount: string;
+  // token amounts redeemable from the free shares, which can be withdrawn without unstaking
+  freeBaseAmount: string;
+  freeQuoteAmount: string;
+  // USD value of the redeemable amounts
+  baseValue: string;
+  quoteValue: string;
+  totalValue: string;
+};
+
+// ratio of share to supply, 0 if the pool has no supply
+function getPoolShareRatio(share: BigNumber, supply: BigNumber): BigNumber {
+  return supply.isZero() ? new BigNumber(0) : share.dividedBy(supply);
+}
+
+/**
+ * value a liquidity provider's position of a pool
+ * - the redeemable amounts are calculated with calculateWithdrawalFromShares
+ * - the USD value is the redeemable amounts multiplied by the token prices
+ * @param lpUser liquidity provider account data
+ * @param poolState pool state of the swap info
+ * @param baseTokenConfig base token of the pool
+ * @param quoteTokenConfig quote token of the pool
+ * @param basePrice USD price of the base token, usually from pyth
+ * @param quotePrice USD price of the quote token, usually from pyth
+ * @returns shares, pool share ratios, redeemable amounts and USD value of the position
+ */
+export function calculateLiquidityPosition(
+  lpUser: LiquidityProvider,
+  poolState: PoolState,
+  baseTokenConfig: TokenConfig,
+  quoteTokenConfig: TokenConfig,
+  basePrice: BigNumber,
+  quotePrice: BigNumber,
+): LiquidityPosition {
+  const freeBaseShare = lpUser.baseShare.sub(lpUser.stakedBaseShare);
+  const freeQuoteShare = lpUser.quoteShare.sub(lpUser.stakedQuoteShare);
+
+  const { baseWithdrawalAmount: baseAmount, quoteWithdrawalAmount: quoteAmount } =
+    calculateWithdrawalFromShares(
+      lpUser.baseShare,
+      lpUser.quoteShare,
+      baseTokenConfig,
+      quoteTokenConfig,
+      basePrice,
+      quotePrice,
+      poolState,
+    );
+  const { baseWithdrawalAmount: freeBaseAmount, quoteWithdrawalAmount: freeQuoteAmount } =
+    calculateWithdrawalFromShares(
+      freeBaseShare,
+      freeQuoteShare,
+      baseTokenConfig,
+      quoteTokenConfig,
+      basePrice,
+      quotePrice,
+      poolState,
+    );
+
+  const baseValue = new BigNumber(baseAmount).multipliedBy(basePrice);
+  const quoteValue = new BigNumber(quoteAmount).multipliedBy(quotePrice);
+
+  return {
+    baseShare: anchorBnToString(baseTokenConfig, lpUser.baseShare),
+    quoteShare: anchorBnToString(quoteTokenConfig, lpUser.quoteShare),
+    stakedBaseShare: anchorBnToString(baseTokenConfig, lpUser.stakedBaseShare),
+    stakedQuoteShare: anchorBnToString(quoteTokenConfig, lpUser.stakedQuoteShare),
+    freeBaseShare: anchorBnToString(baseTokenConfig, freeBaseShare),
+    freeQuoteShare: anchorBnToString(quoteTokenConfig, freeQuoteShare),
+    basePoolShare: getPoolShareRatio(
+      anchorBnToBn(baseTokenConfig, lpUser.baseShare),
+      anchorBnToBn(baseTokenConfig, poolState.baseSupply),
+    ).toString(),
+    quotePoolShare: getPoolShareRatio(
+      anchorBnToBn(quoteTokenConfig, lpUser.quoteShare),
+      anchorBnToBn(quoteTokenConfig, poolState.quoteSupply),
+    ).toString(),
+    baseAmount,
+    quoteAmount,
+    freeBaseAmount,
+    freeQuoteAmount,
+    baseValue: baseValue.toFixed(2),
+    quoteValue: quoteValue.toFixed(2),
+    totalValue: baseValue.plus(quoteValue).toFixed(2),
+  };
+}
@@ -0,0 +1,43 @@
+import BigNumber from "bignumber.js";
+import { DeltafiUser } from "../anchor/type_definitions";
+import { DELTAFI_TOKEN_DECIMALS, exponentiatedBy } from "./utils";
+
+export type DeltafiUserRewards = {
+  owedTradeRewards: string;
+  claimedTradeRewards: string;
+  owedReferralRewards: string;
+  claimedReferralRewards: string;
+  totalOwedRewards: string;
+};
+
+/**
+ * get the owed and claimed DELFI rewards of a deltafi user, in DELFI UI unit
+ * @param deltafiUser deltafi user account data, null if the account does not exist
+ * @returns owed and claimed trade and referral rewards, all zero for a nonexistent user
+ */
+export function getDeltafiUserRewards(deltafiUser: DeltafiUser | null): DeltafiUserRewards {
+  const toDisplay = (amount: BigNumber) =>
+    exponentiatedBy(amount, DELTAFI_TOKEN_DECIMALS).toFixed(DELTAFI_TOKEN_DECIMALS);
+
+  if (!deltafiUser) {
+    const zero = toDisplay(new BigNumber(0));
+    return {
+      owedTradeRewards: zero,
+      claimedTradeRewards: zero,
+      owedReferralRewards: zero,
+      claimedReferralRewards: zero,
+      totalOwedRewards: zero,
+    };
+  }
+
+  const owedTradeRewards = new BigNumber(deltafiUser.owedTradeRewards.toString());
+  const owedReferralRewards = new BigNumber(deltafiUser.owedReferralRewards.toString());
+
+  return {
+    owedTradeRewards: toDisplay(owedTradeRewards),
+    claimedTradeRewards: toDisplay(new BigNumber(deltafiUser.claimedTradeRewards.toString())),
+    owedReferralRewards: toDisplay(owedReferralRewards),
+    claimedReferralRewards: toDisplay(new BigNumber(deltafiUser.claimedReferralRewards.toString())),
+    totalOwedRewards: toDisplay(owedTradeRewards.plus(owedReferralRewards)),
+  };
+}
@@ -0,0 +1,203 @@
+import BigNumber from "bignumber.js";
+import { SwapDirection, SwapInfo } from "../anchor/type_definitions";
+import { SymbolToPythPriceData } from "../anchor/pyth_utils";
+import { createPythPriceSource, isPriceSource, PriceSource } from "../anchor/price_source";
+import { calculateSwapOutResult, SwapResult } from "./swapOutAmount";
+import { PoolConfig, TokenConfig } from "./types";
+
+export type RouteHop = {
+  poolConfig: PoolConfig;
+  fromToken: TokenConfig;
+  toToken: TokenConfig;
+  swapDirection: SwapDirection;
+};
+
+export type RouteQuote = {
+  hops: RouteHop[];
+  // quote of each hop, the input of a hop is the expected amount out of the previous hop
+  hopResults: SwapResult[];
+  // amount sent to each hop, the min amount out of the previous hop
+  // because the swap instruction takes an exact amount in
+  hopAmountsIn: string[];
+  // min amount out of each hop, with the slippage of all the hops up to it
+  hopMinAmountsOut: string[];
+  amountIn: string;
+  // expected amount out of the route
+  amountOut: string;
+  // min amount out of the route, the min amount out of the last hop
+  amountOutWithSlippage: string;
+  insufficientLiquidity: boolean;
+};
+
+function getRouteHop(deploymentConfig, poolConfig, fromSymbol: string): RouteHop {
+  const tokenConfigList: TokenConfig[] = deploymentConfig.tokenInfoList;
+  const toSymbol = poolConfig.base === fromSymbol ? poolConfig.quote : poolConfig.base;
+  return {
+    poolConfig,
+    fromToken: tokenConfigList.find(({ symbol }) => symbol === fromSymbol),
+    toToken: tokenConfigList.find(({ symbol }) => symbol === toSymbol),
+    swapDirection: poolConfig.base === fromSymbol ? { sellBase: {} } : { sellQuote: {} },
+  };
+}
+
+/**
+ * find all 1-hop and 2-hop routes between 2 tokens over the pools of the deployment config
+ * @param deploymentConfig deployed account addresses info
+ * @param fromToken info of the input token
+ * @param toToken info of the output token
+ * @returns list of routes, each route is the list of its hops
+ */
+export function findRoutes(
+  deploymentConfig,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+): RouteHop[][] {
+  const poolConfigList: PoolConfig[] = deploymentConfig.poolInfoList || [];
+  const hasToken = (poolConfig, symbol: string) =>
+    poolConfig.base === symbol || poolConfig.quote === symbol;
+  const otherToken = (poolConfig, symbol: string) =>
+    poolConfig.base === symbol ? poolConfig.quote : poolConfig.base;
+
+  const routes: RouteHop[][] = [];
+  poolConfigList
+    .filter((poolConfig) => hasToken(poolConfig, fromToken.symbol))
+    .forEach((firstPoolConfig) => {
+      const middleSymbol = otherToken(firstPoolConfig, fromToken.symbol);
+      if (middleSymbol === toToken.symbol) {
+        routes.push([getRouteHop(deploymentConfig, firstPoolConfig, fromToken.symbol)]);
+        return;
+      }
+
+      poolConfigList
+        .filter(
+          (secondPoolConfig) =>
+            secondPoolConfig.swapInfo !== firstPoolConfig.swapInfo &&
+            hasToken(secondPoolConfig, middleSymbol) &&
+            otherToken(secondPoolConfig, middleSymbol) === toToken.symbol,
+        )
+        .forEach((secondPoolConfig) => {
+          routes.push([
+            getRouteHop(deploymentConfig, firstPoolConfig, fromToken.symbol),
+            getRouteHop(deploymentConfig, secondPoolConfig, middleSymbol),
+          ]);
+        });
+    });
+
+  return routes;
+}
+
+/**
+ * quote a route hop by hop with calculateSwapOutResult
+ * the expected amount out is chained through the hops, so the route is compared by its expected output.
+ * the swap instruction takes an exact amount in, so a hop is sent the min amount out of the previous hop,
+ * and its min amount out is quoted from that amount
+ * serum swap pools are priced by their order books, they are only quoted by a price source
+ * that prices them, e.g. the serum price source
+ * @param hops hops of the route
+ * @param poolToSwapInfo swap info of each pool, keyed by the pool's swapInfo address
+ * @param priceSource source of the market prices, or pyth price data of the tokens
+ * @param amountIn amount of the input token
+ * @param maxSlippage max slippage of each hop, in percentage
+ * @returns quote of each hop and of the whole route, null if a hop cannot be quoted
+ */
+export async function quoteRoute(
+  hops: RouteHop[],
+  poolToSwapInfo: Record<string, SwapInfo>,
+  priceSource: PriceSource | SymbolToPythPriceData,
+  amountIn: string,
+  maxSlippage: number,
+): Promise<RouteQuote | null> {
+  const hopPriceSource = isPriceSource(priceSource)
+    ? priceSource
+    : createPythPriceSource(priceSource);
+  const hopResults: SwapResult[] = [];
+  const hopAmountsIn: string[] = [];
+  const hopMinAmountsOut: string[] = [];
+  let hopAmountIn = amountIn;
+  let hopMinAmountIn = amountIn;
+  for (const hop of hops) {
+    const swapInfo = poolToSwapInfo[hop.poolConfig.swapInfo];
+    if (!swapInfo || (swapInfo.swapType.serumSwap && !isPriceSource(priceSource))) {
+      return null;
+    }
+
+    const { baseToken, quoteToken } =
+      hop.fromToken.mint === swapInfo.mintBase.toBase58()
+        ? { baseToken: hop.fromToken, quoteToken: hop.toToken }
+        : { baseToken: hop.toToken, quoteToken: hop.fromToken };
+    const marketPriceTuple = await hopPriceSource.getMarketPriceTuple(
+      swapInfo,
+      baseToken,
+      quoteToken,
+    );
+    if (marketPriceTuple.marketPrice.isNaN()) {
+      return null;
+    }
+
+    const quoteHop = (hopAmountIn: string) =>
+      calculateSwapOutResult(
+        swapInfo,
+        hop.fromToken,
+        hop.toToken,
+        hopAmountIn,
+        maxSlippage,
+        marketPriceTuple.marketPrice,
+        marketPriceTuple.lowPrice,
+        marketPriceTuple.highPrice,
+      );
+    const hopResult = quoteHop(hopAmountIn);
+    const hopMinResult = hopMinAmountIn === hopAmountIn ? hopResult : quoteHop(hopMinAmountIn);
+    hopResults.push(hopResult);
+    hopAmountsIn.push(hopMinAmountIn);
+    hopMinAmountsOut.push(hopMinResult.amountOutWithSlippage);
+    hopAmountIn = hopResult.amountOut;
+    hopMinAmountIn = hopMinResult.amountOutWithSlippage;
+  }
+
+  return {
+    hops,
+    hopResults,
+    hopAmountsIn,
+    hopMinAmountsOut,
+    amountIn,
+    amountOut: hopResults[hopResults.length - 1].amountOut,
+    amountOutWithSlippage: hopMinAmountsOut[hopMinAmountsOut.length - 1],
+    insufficientLiquidity: hopResults.some(({ insufficientLiquidity }) => insufficientLiquidity),
+  };
+}
+
+/**
+ * find the route with the largest expected net amount out between 2 tokens
+ * @param deploymentConfig deployed account addresses info
+ * @param poolToSwapInfo swap info of each pool, keyed by the pool's swapInfo address
+ * @param priceSource source of the market prices, or pyth price data of the tokens
+ * @param fromToken info of the input token
+ * @param toToken info of the output token
+ * @param amountIn amount of the input token
+ * @param maxSlippage max slippage of each hop, in percentage
+ * @returns quote of the best route, null if there is no route with sufficient liquidity
+ */
+export async function getBestRoute(
+  deploymentConfig,
+  poolToSwapInfo: Record<string, SwapInfo>,
+  priceSource: PriceSource | SymbolToPythPriceData,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  amountIn: string,
+  maxSlippage: number,
+): Promise<RouteQuote | null> {
+  let bestRouteQuote: RouteQuote | null = null;
+  for (const hops of findRoutes(deploymentConfig, fromToken, toToken)) {
+    const routeQuote = await quoteRoute(hops, poolToSwapInfo, priceSource, amountIn, maxSlippage);
+    if (!routeQuote || routeQuote.insufficientLiquidity) {
+      continue;
+    }
+    if (
+      !bestRouteQuote ||
+      new BigNumber(routeQuote.amountOut).isGreaterThan(bestRouteQuote.amountOut)
+    ) {
+      bestRouteQuote = routeQuote;
+    }
+  }
+  return bestRouteQuote;
+}
@@ -0,0 +1,212 @@
+import BigNumber from "bignumber.js";
+import { SwapInfo } from "../anchor/type_definitions";
+import { SymbolToPythPriceData } from "../anchor/pyth_utils";
+import { createPythPriceSource, isPriceSource, PriceSource } from "../anchor/price_source";
+import {
+  calculateSwapOutResult,
+  getSwapDirection,
+  getSwappedAmountsAndPriceImpact,
+  SwapResult,
+} from "./swapOutAmount";
+import { PoolConfig, TokenConfig } from "./types";
+
+// the order is divided into this number of chunks, each chunk goes to the best pool
+const DEFAULT_SPLIT_CHUNKS = 20;
+
+export type SplitOrderAllocation = {
+  poolConfig: PoolConfig;
+  amountIn: string;
+  swapResult: SwapResult;
+};
+
+export type SplitOrderResult = {
+  allocations: SplitOrderAllocation[];
+  amountIn: string;
+  amountOut: string;
+  amountOutWithSlippage: string;
+  insufficientLiquidity: boolean;
+};
+
+// get all pools of the token pair, in either base/quote order
+export function getPoolConfigsByTokens(
+  deploymentConfig,
+  tokenConfigA: TokenConfig,
+  tokenConfigB: TokenConfig,
+): PoolConfig[] {
+  return (deploymentConfig.poolInfoList || []).filter(
+    (pool) =>
+      (pool.base === tokenConfigA.symbol && pool.quote === tokenConfigB.symbol) ||
+      (pool.base === tokenConfigB.symbol && pool.quote === tokenConfigA.symbol),
+  );
+}
+
+/**
+ * divide an order across the pools of the same token pair to maximize the total amount out
+ * the order is split into chunks, each chunk is allocated to the pool with the largest
+ * marginal amount out after trade fee, from getSwappedAmountsAndPriceImpact
+ * serum swap pools are priced by their order books, they are only used with a price source
+ * that prices them, e.g. the serum price source
+ * @param deploymentConfig deployed account addresses info
+ * @param poolToSwapInfo swap info of each pool, keyed by the pool's swapInfo address
+ * @param priceSource source of the market prices, or pyth price data of the tokens
+ * @param fromToken info of the input token
+ * @param toToken info of the output token
+ * @param amountIn amount of the input token
+ * @param maxSlippage max slippage, in percentage
+ * @param chunks number of chunks the order is split into
+ * @returns allocation of each pool with a non-zero amount in, and the combined amount out
+ */
+export async function getSplitOrderResult(
+  deploymentConfig,
+  poolToSwapInfo: Record<string, SwapInfo>,
+  priceSource: PriceSource | SymbolToPythPriceData,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  amountIn: string,
+  maxSlippage: number,
+  chunks: number = DEFAULT_SPLIT_CHUNKS,
+): Promise<SplitOrderResult> {
+  const poolPriceSource = isPriceSource(priceSource)
+    ? priceSource
+    : createPythPriceSource(priceSource);
+  const candidates = (
+    await Promise.all(
+      getPoolConfigsByTokens(deploymentConfig, fromToken, toToken).map(async (poolConfig) => {
+        const swapInfo: SwapInfo = poolToSwapInfo[poolConfig.swapInfo];
+        if (!swapInfo || (swapInfo.swapType.serumSwap && !isPriceSource(priceSource))) {
+          return null;
+        }
+        const { baseToken, quoteToken } =
+          fromToken.mint === swapInfo.mintBase.toBase58()
+            ? { baseToken: fromToken, quoteToken: toToken }
+            : { baseToken: toToken, quoteToken: fromToken };
+        const marketPriceTuple = await poolPriceSource.getMarketPriceTuple(
+          swapInfo,
+          baseToken,
+          quoteToken,
+        );
+        if (marketPriceTuple.marketPrice.isNaN()) {
+          return null;
+        }
+        return {
+          poolConfig,
+          swapInfo,
+          marketPriceTuple,
+          swapDirection: getSwapDirection(fromToken, toToken, swapInfo),
+          allocated: new BigNumber(0),
+          amountOut: new BigNumber(0),
+        };
+      }),
+    )
+  ).filter((candidate) => !!candidate);
+
+  if (candidates.length === 0) {
+    throw Error("No pool available for: " + fromToken.symbol + " " + toToken.symbol);
+  }
+
+  // amount out after trade fee, -Infinity if the pool cannot take the amount in
+  const getNetAmountOut = (candidate, candidateAmountIn: BigNumber): BigNumber => {
+    const { swapInfo, swapDirection, marketPriceTuple } = candidate;
+    try {
+      const { amountOut } = getSwappedAmountsAndPriceImpact(
+        swapInfo,
+        swapDirection,
+        candidateAmountIn,
+        marketPriceTuple.marketPrice,
+        marketPriceTuple.lowPrice,
+        marketPriceTuple.highPrice,
+      );
+      if (amountOut.isNaN() || amountOut.isNegative()) {
+        return new BigNumber(-Infinity);
+      }
+      return amountOut
+        .multipliedBy(
+          swapInfo.swapConfig.tradeFeeDenominator - swapInfo.swapConfig.tradeFeeNumerator,
+        )
+        .dividedBy(swapInfo.swapConfig.tradeFeeDenominator);
+    } catch (e) {
+      return new BigNumber(-Infinity);
+    }
+  };
+
+  const chunkAmount: BigNumber = new BigNumber(amountIn).dividedBy(chunks);
+  for (let i = 0; i < chunks; i++) {
+    let bestCandidate = null;
+    let bestAmountOut: BigNumber = new BigNumber(-Infinity);
+    let bestMarginalAmountOut: BigNumber = new BigNumber(-Infinity);
+    for (const candidate of candidates) {
+      const amountOut = getNetAmountOut(candidate, candidate.allocated.plus(chunkAmount));
+      const marginalAmountOut = amountOut.minus(candidate.amountOut);
+      if (marginalAmountOut.isGreaterThan(bestMarginalAmountOut)) {
+        bestCandidate = candidate;
+        bestAmountOut = amountOut;
+        bestMarginalAmountOut = marginalAmountOut;
+      }
+    }
+    if (!bestCandidate) {
+      break;
+    }
+    bestCandidate.allocated = bestCandidate.allocated.plus(chunkAmount);
+    bestCandidate.amountOut = bestAmountOut;
+  }
+
+  const allocatedCandidates = candidates.filter(({ allocated }) => allocated.isGreaterThan(0));
+  const allocationAmountsIn: BigNumber[] = allocatedCandidates.map(
+    ({ allocated }) => new BigNumber(allocated.toFixed(fromToken.decimals, BigNumber.ROUND_FLOOR)),
+  );
+  // the allocations are rounded down to the token decimals, the remainder goes to the largest one
+  // the chunks may not divide amountIn exactly, so the total is rounded to the nearest amount
+  if (allocatedCandidates.length > 0) {
+    const totalAmountIn = BigNumber.min(
+      new BigNumber(
+        allocatedCandidates
+          .reduce((total, { allocated }) => total.plus(allocated), new BigNumber(0))
+          .toFixed(fromToken.decimals),
+      ),
+      new BigNumber(amountIn),
+    );
+    const remainder = totalAmountIn.minus(
+      allocationAmountsIn.reduce((total, amount) => total.plus(amount), new BigNumber(0)),
+    );
+    const largestIndex = allocationAmountsIn.reduce(
+      (largest, amount, i) => (amount.isGreaterThan(allocationAmountsIn[largest]) ? i : largest),
+      0,
+    );
+    allocationAmountsIn[largestIndex] = allocationAmountsIn[largestIndex].plus(remainder);
+  }
+
+  const allocations: SplitOrderAllocation[] = allocatedCandidates.map(
+    ({ poolConfig, swapInfo, marketPriceTuple }, i) => {
+      const allocationAmountIn = allocationAmountsIn[i].toFixed(fromToken.decimals);
+      return {
+        poolConfig,
+        amountIn: allocationAmountIn,
+        swapResult: calculateSwapOutResult(
+          swapInfo,
+          fromToken,
+          toToken,
+          allocationAmountIn,
+          maxSlippage,
+          marketPriceTuple.marketPrice,
+          marketPriceTuple.lowPrice,
+          marketPriceTuple.highPrice,
+        ),
+      };
+    },
+  );
+
+  const sum = (values: string[]) =>
+    values.reduce((total, value) => total.plus(value), new BigNumber(0));
+
+  return {
+    allocations,
+    amountIn: sum(allocations.map(({ amountIn }) => amountIn)).toFixed(fromToken.decimals),
+    amountOut: sum(allocations.map(({ swapResult }) => swapResult.amountOut)).toFixed(
+      toToken.decimals,
+    ),
+    amountOutWithSlippage: sum(
+      allocations.map(({ swapResult }) => swapResult.amountOutWithSlippage),
+    ).toFixed(toToken.decimals),
+    insufficientLiquidity: allocations.some(({ swapResult }) => swapResult.insufficientLiquidity),
+  };
+}
@@ -1,49 +1,132 @@
 import BigNumber from "bignumber.js";
 import { calculateOutAmountNormalSwap, calculateOutAmountStableSwap } from "./calculation";
+import {
+  calculateTradeFeeInteger,
+  getSwapOutAmountWithIntegerCurve,
+  toBigIntFloor,
+} from "./integerCurve";
 import { PoolState, SwapConfig, SwapInfo, SwapDirection } from "../anchor/type_definitions";
-import { WAD, exponentiate, exponentiatedBy, getOppsiteSwapDirection } from "./utils";
+import {
+  WAD,
+  DELTAFI_TOKEN_DECIMALS,
+  exponentiate,
+  exponentiatedBy,
+  getOppsiteSwapDirection,
+} from "./utils";
 import { bnToString } from "./tokenUtils";
 import { TokenConfig } from "./types";
-import { getPythMarketPriceTuple, SymbolToPythPriceData } from "../anchor/pyth_utils";
+import {
+  PythPriceInvalidReason,
+  PythPriceValidationOption,
+  SymbolToPythPriceData,
+} from "../anchor/pyth_utils";
+import { createPythPriceSource, isPriceSource, PriceSource } from "../anchor/price_source";
+import { getSerumMarketPriceTuple } from "../anchor/serum_utils";
+import { Connection, PublicKey } from "@solana/web3.js";
+
+// engine of the curve calculations
+// - float: BigNumber and float power, with the approximation method as a lower bound
+// - integer: bigint fixed-point calculation of the curves and the trade fee, see integerCurve.ts
+export type CurveEngine = "float" | "integer";
 
 export type SwapResult = {
   amountIn: string;
   amountOut: string;
   amountOutWithSlippage: string;
   fee: string;
+  // part of the fee paid back to the user's rebate token account, in the output token
+  rebate: string;
+  // DELFI reward of the trade, credited to the user's deltafi user account
+  tradeReward: string;
+  // DELFI reward credited to the referrer's deltafi user account
+  referralReward: string;
   priceImpact: string;
   insufficientLiquidity: boolean;
+  // reasons of the invalid prices by token symbol, only set by getSwapOutResult when the price
+  // source reports invalid prices and they are not refused
+  invalidPriceReasons?: Record<string, PythPriceInvalidReason[]>;
 };
 
 /**
  * function that parses account data to get current account/price state
  * then call the calculation logic
+ * @param priceSource source of the market price, or pyth price data of the tokens
  * @param mintFrom token mint of the from(user sell) token
  * @param mintTo token mint of the to(user buy) token
  * @param amountIn amount in of the from token, in string
  * @param maxSlippage max slippage, used for calculate min amount out
  * @param connection rpc call connection
  * @param deploymentConfig deployed account addresses info
+ * @param pythPriceValidationOption if set, validates the pyth prices the program would reject
+ *   invalid prices throw if refuseInvalidPrice is set, otherwise they are returned in invalidPriceReasons
+ * @param curveEngine engine of the curve calculations, float by default
  * @returns amount out information
  */
 export async function getSwapOutResult(
-  symbolToPythPriceData: SymbolToPythPriceData,
+  priceSource: PriceSource | SymbolToPythPriceData,
   swapInfo: SwapInfo,
   fromToken: TokenConfig,
   toToken: TokenConfig,
   amountIn: string,
   maxSlippage: number,
+  pythPriceValidationOption?: PythPriceValidationOption,
+  curveEngine: CurveEngine = "float",
 ): Promise<SwapResult> {
   const { baseToken, quoteToken } =
     fromToken.mint === swapInfo.mintBase.toBase58()
       ? { baseToken: fromToken, quoteToken: toToken }
       : { baseToken: toToken, quoteToken: fromToken };
 
-  const marketPriceTuple = getPythMarketPriceTuple(
-    symbolToPythPriceData,
-    baseToken.symbol,
-    quoteToken.symbol,
+  const marketPriceTuple = await (isPriceSource(priceSource)
+    ? priceSource
+    : createPythPriceSource(priceSource, pythPriceValidationOption)
+  ).getMarketPriceTuple(swapInfo, baseToken, quoteToken);
+  const hasInvalidPrice =
+    !!marketPriceTuple.invalidReasons && Object.keys(marketPriceTuple.invalidReasons).length > 0;
+  if (hasInvalidPrice && pythPriceValidationOption?.refuseInvalidPrice) {
+    throw Error("Invalid market price: " + JSON.stringify(marketPriceTuple.invalidReasons));
+  }
+
+  const swapResult = calculateSwapOutResult(
+    swapInfo,
+    fromToken,
+    toToken,
+    amountIn,
+    maxSlippage,
+    marketPriceTuple.marketPrice,
+    marketPriceTuple.lowPrice,
+    marketPriceTuple.highPrice,
+    curveEngine,
   );
+  return hasInvalidPrice
+    ? { ...swapResult, invalidPriceReasons: marketPriceTuple.invalidReasons }
+    : swapResult;
+}
+
+/**
+ * same as getSwapOutResult, but for serum swap pools
+ * the market price is read from the pool's serum order book instead of pyth
+ * @param connection rpc call connection
+ * @param serumProgramId serum dex program id, same as the one in the market config
+ * @param swapInfo pool's information, includes serum market, bids and asks accounts
+ * @param fromToken info of the input token
+ * @param toToken info of the output token
+ * @param amountIn amount in of the from token, in string
+ * @param maxSlippage max slippage, used for calculate min amount out
+ * @param curveEngine engine of the curve calculations, float by default
+ * @returns amount out information
+ */
+export async function getSerumSwapOutResult(
+  connection: Connection,
+  serumProgramId: PublicKey,
+  swapInfo: SwapInfo,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  amountIn: string,
+  maxSlippage: number,
+  curveEngine: CurveEngine = "float",
+): Promise<SwapResult> {
+  const marketPriceTuple = await getSerumMarketPriceTuple(connection, swapInfo, serumProgramId);
   return calculateSwapOutResult(
     swapInfo,
     fromToken,
@@ -53,6 +136,7 @@ export async function getSwapOutResult(
     marketPriceTuple.marketPrice,
     marketPriceTuple.lowPrice,
     marketPriceTuple.highPrice,
+    curveEngine,
   );
 }
 
@@ -61,6 +145,9 @@ export const emptyResult: SwapResult = {
   amountOut: "",
   amountOutWithSlippage: "",
   fee: "",
+  rebate: "",
+  tradeReward: "",
+  referralReward: "",
   priceImpact: "",
   insufficientLiquidity: false,
 };
@@ -70,6 +157,9 @@ export const zeroResult: SwapResult = {
   amountOut: "0",
   amountOutWithSlippage: "0",
   fee: "0",
+  rebate: "0",
+  tradeReward: "0",
+  referralReward: "0",
   priceImpact: "0",
   insufficientLiquidity: false,
 };
@@ -86,6 +176,7 @@ export const zeroResult: SwapResult = {
  * @param marketPrice basePrice / quotePrice
  * @param marketPriceHigh upper bound of the market price after confidence interval adjustion
  * @param marketPriceLow lower bound of the market price after confidence interval adjustion
+ * @param curveEngine engine of the curve calculations, float by default
  * @returns amount out information
  */
 export function calculateSwapOutResult(
@@ -97,6 +188,7 @@ export function calculateSwapOutResult(
   marketPrice: BigNumber,
   marketPriceLow?: BigNumber,
   marketPriceHigh?: BigNumber,
+  curveEngine: CurveEngine = "float",
 ): SwapResult {
   const amountInBN: BigNumber = new BigNumber(amountIn);
   if (amountInBN.isNaN()) {
@@ -120,11 +212,21 @@ export function calculateSwapOutResult(
       marketPrice,
       marketPriceLow,
       marketPriceHigh,
+      curveEngine,
     );
 
-  const tradeFeeBN: BigNumber = grossAmountOutBN
-    .multipliedBy(swapInfo.swapConfig.tradeFeeNumerator.toString())
-    .dividedBy(swapInfo.swapConfig.tradeFeeDenominator.toString());
+  const tradeFeeBN: BigNumber =
+    curveEngine === "integer"
+      ? exponentiatedBy(
+          calculateTradeFeeInteger(
+            toBigIntFloor(exponentiate(grossAmountOutBN, toToken.decimals)),
+            swapInfo.swapConfig,
+          ).toString(),
+          toToken.decimals,
+        )
+      : grossAmountOutBN
+          .multipliedBy(swapInfo.swapConfig.tradeFeeNumerator.toString())
+          .dividedBy(swapInfo.swapConfig.tradeFeeDenominator.toString());
 
   const amountOutAfterTradeFeeBN: BigNumber = grossAmountOutBN.minus(tradeFeeBN);
 
@@ -150,11 +252,23 @@ export function calculateSwapOutResult(
     marketPrice,
   );
 
+  const { rebate, tradeReward, referralReward } = calculateSwapRewards(
+    swapInfo,
+    swapDirection,
+    amountInBN,
+    grossAmountOutBN,
+    new BigNumber(fee),
+    toToken,
+  );
+
   return {
     amountIn,
     amountOut,
     amountOutWithSlippage,
     fee,
+    rebate,
+    tradeReward,
+    referralReward,
     priceImpact,
     insufficientLiquidity: !sufficientReserve,
   };
@@ -171,6 +285,7 @@ export function calculateSwapOutResult(
  * @param marketPrice basePrice / quotePrice
  * @param marketPriceHigh upper bound of the market price after confidence interval adjustion
  * @param marketPriceLow lower bound of the market price after confidence interval adjustion
+ * @param curveEngine engine of the curve calculations, float by default
  * @returns amount in information (+ amount out with max slippage)
  */
 export function calculateSwapInResult(
@@ -182,6 +297,7 @@ export function calculateSwapInResult(
   marketPrice: BigNumber,
   marketPriceLow?: BigNumber,
   marketPriceHigh?: BigNumber,
+  curveEngine: CurveEngine = "float",
 ): SwapResult {
   const amountOutBN: BigNumber = new BigNumber(amountOut);
   if (amountOutBN.isNaN()) {
@@ -210,6 +326,7 @@ export function calculateSwapInResult(
     marketPrice,
     marketPriceHigh,
     marketPriceLow,
+    curveEngine,
   );
 
   const amountInBN: BigNumber = amountInNegBN.negated();
@@ -237,16 +354,237 @@ export function calculateSwapInResult(
     marketPrice,
   );
 
+  const { rebate, tradeReward, referralReward } = calculateSwapRewards(
+    swapInfo,
+    swapDirection,
+    amountInBN,
+    grossAmountOutBN,
+    feeBN,
+    toToken,
+  );
+
   return {
     amountIn,
     amountOut,
     amountOutWithSlippage,
     fee,
+    rebate,
+    tradeReward,
+    referralReward,
     priceImpact,
     insufficientLiquidity: !sufficientReserve,
   };
 }
 
+/**
+ * calculate the expected rebate and DELFI rewards of a swap
+ * - rebate = fee * rebateNumerator / rebateDenominator, in the output token
+ * - tradeReward = tradedQuoteAmount * tradeRewardNumerator / tradeRewardDenominator, in DELFI
+ *   it is capped by tradeRewardCap and by what is left of tradeRewardMaxReserve
+ * - referralReward = tradeReward * referralRewardNumerator / referralRewardDenominator, in DELFI
+ * @param swapInfo pool's information, includes pool state and pool's configs of fees and rewards
+ * @param swapDirection sell base or sell quote
+ * @param amountIn amount of the input token
+ * @param grossAmountOut amount of the output token before the trade fee
+ * @param fee trade fee, in the output token
+ * @param toToken info of the output token
+ * @returns rebate in the output token, trade reward and referral reward in DELFI
+ */
+export function calculateSwapRewards(
+  swapInfo: SwapInfo,
+  swapDirection: SwapDirection,
+  amountIn: BigNumber,
+  grossAmountOut: BigNumber,
+  fee: BigNumber,
+  toToken: TokenConfig,
+): {
+  rebate: string;
+  tradeReward: string;
+  referralReward: string;
+} {
+  const swapConfig: SwapConfig = swapInfo.swapConfig;
+
+  const rebateBN: BigNumber =
+    swapConfig.rebateDenominator > 0
+      ? fee.multipliedBy(swapConfig.rebateNumerator).dividedBy(swapConfig.rebateDenominator)
+      : new BigNumber(0);
+
+  // trade reward is calculated from the traded quote amount in its raw token unit
+  const tradedQuoteAmount: BigNumber = swapDirection.sellBase
+    ? exponentiate(grossAmountOut, swapInfo.mintQuoteDecimals)
+    : exponentiate(amountIn, swapInfo.mintQuoteDecimals);
+
+  const rawTradeReward: BigNumber = calculateRawTradeReward(swapInfo, tradedQuoteAmount);
+
+  const rawReferralReward: BigNumber =
+    swapConfig.referralRewardDenominator > 0
+      ? rawTradeReward
+          .multipliedBy(swapConfig.referralRewardNumerator)
+          .dividedBy(swapConfig.referralRewardDenominator)
+          .integerValue(BigNumber.ROUND_FLOOR)
+      : new BigNumber(0);
+
+  return {
+    rebate: bnToString(toToken, rebateBN),
+    tradeReward: exponentiatedBy(rawTradeReward, DELTAFI_TOKEN_DECIMALS).toFixed(
+      DELTAFI_TOKEN_DECIMALS,
+    ),
+    referralReward: exponentiatedBy(rawReferralReward, DELTAFI_TOKEN_DECIMALS).toFixed(
+      DELTAFI_TOKEN_DECIMALS,
+    ),
+  };
+}
+
+/**
+ * DELFI trade reward of a swap in raw unit
+ * - tradeReward = tradedQuoteAmount * tradeRewardNumerator / tradeRewardDenominator
+ *   capped by tradeRewardCap and by what is left of tradeRewardMaxReserve
+ * @param swapInfo pool's information, includes the accumulated trade reward of the pool
+ * @param tradedQuoteAmount quote amount of the swap in raw unit, the amount in when selling quote
+ *   and the amount out before the trade fee when selling base
+ */
+export function calculateRawTradeReward(
+  swapInfo: SwapInfo,
+  tradedQuoteAmount: BigNumber,
+): BigNumber {
+  const swapConfig: SwapConfig = swapInfo.swapConfig;
+  if (swapConfig.tradeRewardDenominator <= 0) {
+    return new BigNumber(0);
+  }
+
+  const remainingTradeReward: BigNumber = BigNumber.max(
+    new BigNumber(swapConfig.tradeRewardMaxReserve.toString()).minus(
+      swapInfo.poolState.accumulatedTradeReward.toString(),
+    ),
+    0,
+  );
+
+  return BigNumber.min(
+    tradedQuoteAmount
+      .multipliedBy(swapConfig.tradeRewardNumerator)
+      .dividedBy(swapConfig.tradeRewardDenominator)
+      .integerValue(BigNumber.ROUND_FLOOR),
+    new BigNumber(swapConfig.tradeRewardCap.toString()),
+    remainingTradeReward,
+  );
+}
+
+export type ExactOutSwapResult = SwapResult & {
+  // amount in with the max-input slippage, the amount actually sent to the swap instruction
+  maxAmountIn: string;
+  // amount out when the whole maxAmountIn is swapped at the current price
+  maxAmountOut: string;
+  // how far the realized amount out may overshoot the requested amount out
+  maxOvershoot: string;
+  // the swap would fail with ExceededSwapOutAmount
+  exceededSwapOutAmount: boolean;
+};
+
+/**
+ * calculate the input information of a swap that receives an exact amount out
+ * the swap instruction takes an exact amount in, so the swap sends maxAmountIn
+ * and requires at least amountOut. the realized amount out is between amountOut and maxAmountOut
+ * @param swapInfo pool's information, includes pool state, pool's configs of fees and all tokens and token accounts info
+ * @param fromToken info of the input token
+ * @param toToken info of the output token
+ * @param amountOut exact amount of the output token to receive
+ * @param maxSlippage max slippage of the input amount, in percentage
+ * @param marketPrice basePrice / quotePrice
+ * @param marketPriceLow lower bound of the market price after confidence interval adjustion
+ * @param marketPriceHigh upper bound of the market price after confidence interval adjustion
+ * @param curveEngine engine of the curve calculations, float by default
+ * @returns amount in information, with the max amount in and the max overshoot of amount out
+ */
+export function calculateExactOutSwapResult(
+  swapInfo: SwapInfo,
+  fromToken: TokenConfig,
+  toToken: TokenConfig,
+  amountOut: string,
+  maxSlippage: number,
+  marketPrice: BigNumber,
+  marketPriceLow?: BigNumber,
+  marketPriceHigh?: BigNumber,
+  curveEngine: CurveEngine = "float",
+): ExactOutSwapResult {
+  const swapInResult: SwapResult = calculateSwapInResult(
+    swapInfo,
+    fromToken,
+    toToken,
+    amountOut,
+    maxSlippage,
+    marketPrice,
+    marketPriceLow,
+    marketPriceHigh,
+    curveEngine,
+  );
+
+  // empty or zero amount out, there is nothing to bound
+  if (swapInResult === emptyResult || swapInResult === zeroResult) {
+    return {
+      ...swapInResult,
+      maxAmountIn: swapInResult.amountIn,
+      maxAmountOut: swapInResult.amountOut,
+      maxOvershoot: swapInResult.amountOut,
+      exceededSwapOutAmount: false,
+    };
+  }
+
+  const maxAmountIn: string = new BigNumber(swapInResult.amountIn)
+    .multipliedBy(100 + maxSlippage)
+    .dividedBy(100)
+    .toFixed(fromToken.decimals, BigNumber.ROUND_CEIL);
+
+  const { amountOut: maxAmountOut, fee: maxFee } = calculateSwapOutResult(
+    swapInfo,
+    fromToken,
+    toToken,
+    maxAmountIn,
+    0,
+    marketPrice,
+    marketPriceLow,
+    marketPriceHigh,
+    curveEngine,
+  );
+
+  const maxOvershoot: BigNumber = BigNumber.max(
+    new BigNumber(maxAmountOut).minus(new BigNumber(amountOut)),
+    0,
+  );
+
+  // the program checks the amount out before the trade fee
+  const exceededSwapOutAmount: boolean = isSwapOutAmountExceeded(
+    swapInfo,
+    getSwapDirection(fromToken, toToken, swapInfo),
+    exponentiate(new BigNumber(maxAmountOut).plus(maxFee), toToken.decimals),
+  );
+
+  return {
+    ...swapInResult,
+    maxAmountIn,
+    maxAmountOut,
+    maxOvershoot: bnToString(toToken, maxOvershoot),
+    exceededSwapOutAmount,
+  };
+}
+
+// the program rejects a swap with ExceededSwapOutAmount
+// if the amount out before the trade fee is more than maxSwapPercentage of the output token reserve
+export function isSwapOutAmountExceeded(
+  swapInfo: SwapInfo,
+  swapDirection: SwapDirection,
+  rawAmountOut: BigNumber,
+): boolean {
+  const outReserve: BigNumber = new BigNumber(
+    swapDirection.sellBase
+      ? swapInfo.poolState.quoteReserve.toString()
+      : swapInfo.poolState.baseReserve.toString(),
+  );
+
+  return rawAmountOut.isGreaterThan(
+    outReserve.multipliedBy(swapInfo.swapConfig.maxSwapPercentage).dividedBy(100),
+  );
+}
+
 export function getSwappedAmountsAndPriceImpact(
   swapInfo: SwapInfo,
   swapDirection: SwapDirection,
@@ -254,6 +592,7 @@ export function getSwappedAmountsAndPriceImpact(
   marketPrice: BigNumber,
   marketPriceSellBase?: BigNumber,
   marketPriceSellQuote?: BigNumber,
+  curveEngine: CurveEngine = "float",
 ): {
   amountIn: BigNumber;
   amountOut: BigNumber;
@@ -280,6 +619,7 @@ export function getSwappedAmountsAndPriceImpact(
       swapInfo,
       rawAmountIn,
       normalizedMaketPrice,
+      curveEngine,
     );
 
     return {
@@ -300,6 +640,7 @@ export function getSwappedAmountsAndPriceImpact(
       swapInfo,
       rawAmountIn,
       normalizedMaketPrice,
+      curveEngine,
     );
 
     return {
@@ -314,21 +655,53 @@ export function getSwappedAmountsAndPriceImpact(
   throw Error("Invalid swap direction: " + swapDirection);
 }
 
+// the stable swap curve goes beyond the output reserve for large inputs, so does the normal swap
+// curve with virtual reserves, but the pool cannot pay out its whole reserve
+// the out amount is capped at one raw unit below the output reserve
+function capOutAmountByReserve(
+  result: { outAmount: BigNumber; priceImpact: BigNumber },
+  outReserve: BigNumber,
+): { outAmount: BigNumber; priceImpact: BigNumber } {
+  const maxOutAmount = BigNumber.max(outReserve.minus(1), 0);
+  return result.outAmount.isGreaterThan(maxOutAmount)
+    ? { ...result, outAmount: maxOutAmount }
+    : result;
+}
+
 /**
  * Calculate out amount when selling base, reserve A is base reserve, reserve B is quote reserve
  * @param pool full swap pool information, includes the current reserve and target amounts of the tokens
  * @param amountIn base token input amount
  * @param marketPrice baseTokenPrice / quoteTokenPrice
- * @param swapType normal swap or stable swap
+ * @param swapType normal swap, stable swap or serum swap
+ * @param curveEngine engine of the curve calculations, float by default
  * @returns quote token amount out calculated from the curve formulas
  */
 export function getSwapOutAmountSellBase(
   pool: SwapInfo,
   amountIn: BigNumber,
   marketPrice: BigNumber,
+  curveEngine: CurveEngine = "float",
+): { outAmount: BigNumber; priceImpact: BigNumber } {
+  return capOutAmountByReserve(
+    getCurveOutAmountSellBase(pool, amountIn, marketPrice, curveEngine),
+    new BigNumber(pool.poolState.quoteReserve.toString()),
+  );
+}
+
+function getCurveOutAmountSellBase(
+  pool: SwapInfo,
+  amountIn: BigNumber,
+  marketPrice: BigNumber,
+  curveEngine: CurveEngine,
 ): { outAmount: BigNumber; priceImpact: BigNumber } {
+  if (curveEngine === "integer") {
+    return getSwapOutAmountWithIntegerCurve(pool, { sellBase: {} }, amountIn, marketPrice);
+  }
+
   const { virtualBaseReserve, virtualQuoteReserve } = getVirtualReserves(pool, marketPrice);
-  if (pool.swapType.normalSwap) {
+  // serum swap uses the same curve as normal swap, with the market price from the serum order book
+  if (pool.swapType.normalSwap || pool.swapType.serumSwap) {
     return calculateOutAmountNormalSwap(
       marketPrice,
       new BigNumber(pool.poolState.targetBaseReserve.toString()),
@@ -355,16 +728,35 @@ export function getSwapOutAmountSellBase(
  * @param pool full swap pool information, includes the current reserve and target amounts of the tokens
  * @param amountIn quote token input amount
  * @param marketPrice baseTokenPrice / quoteTokenPrice
- * @param swapType normal swap or stable swap
+ * @param swapType normal swap, stable swap or serum swap
+ * @param curveEngine engine of the curve calculations, float by default
  * @returns base token amount out calculated from the curve formulas
  */
 export function getSwapOutAmountSellQuote(
   pool: SwapInfo,
   amountIn: BigNumber,
   marketPrice: BigNumber,
+  curveEngine: CurveEngine = "float",
+): { outAmount: BigNumber; priceImpact: BigNumber } {
+  return capOutAmountByReserve(
+    getCurveOutAmountSellQuote(pool, amountIn, marketPrice, curveEngine),
+    new BigNumber(pool.poolState.baseReserve.toString()),
+  );
+}
+
+function getCurveOutAmountSellQuote(
+  pool: SwapInfo,
+  amountIn: BigNumber,
+  marketPrice: BigNumber,
+  curveEngine: CurveEngine,
 ): { outAmount: BigNumber; priceImpact: BigNumber } {
+  if (curveEngine === "integer") {
+    return getSwapOutAmountWithIntegerCurve(pool, { sellQuote: {} }, amountIn, marketPrice);
+  }
+
   const { virtualBaseReserve, virtualQuoteReserve } = getVirtualReserves(pool, marketPrice);
-  if (pool.swapType.normalSwap) {
+  // serum swap uses the same curve as normal swap, with the market price from the serum order book
+  if (pool.swapType.normalSwap || pool.swapType.serumSwap) {
     return calculateOutAmountNormalSwap(
       // the market price for calculation is the reciprocal of the market price input
       new BigNumber(1).dividedBy(marketPrice),
@@ -458,6 +850,19 @@ export function IsSufficientReserve(
     marketPrice,
   );
 
+  if (
+    swapInfo.swapType.serumSwap &&
+    !checkIfReserveIsWithinSerumTokenRatioLimit(
+      baseReserveAfter,
+      quoteReserveAfter,
+      normalizedBaseReserve,
+      normalizedQuoteReserve,
+      swapInfo.swapConfig,
+    )
+  ) {
+    return false;
+  }
+
   return checkIfReserveIsSufficient(
     baseReserveAfter,
     quoteReserveAfter,
@@ -578,6 +983,30 @@ export function checkIfReserveIsSufficient(
   );
 }
 
+// serum swap pools price the tokens with the serum order book, which is less reliable than pyth
+// the token ratio of the pool is limited by serumMarketTokenRatioLimitPercentage
+// each reserve should not go below this percentage of its normalized reserve
+export function checkIfReserveIsWithinSerumTokenRatioLimit(
+  baseReserve: BigNumber,
+  quoteReserve: BigNumber,
+  normalizedBaseReserve: BigNumber,
+  normalizedQuoteReserve: BigNumber,
+  swapConfig: SwapConfig,
+): boolean {
+  return (
+    baseReserve.gte(
+      normalizedBaseReserve
+        .multipliedBy(swapConfig.serumMarketTokenRatioLimitPercentage)
+        .dividedBy(100),
+    ) &&
+    quoteReserve.gte(
+      normalizedQuoteReserve
+        .multipliedBy(swapConfig.serumMarketTokenRatioLimitPercentage)
+        .dividedBy(100),
+    )
+  );
+}
+
 // get the stable price normalized by base and quote decimals
 // stable price itself is 1 by default
 export function getStableMarketPrice(swapInfo: SwapInfo): BigNumber {
@@ -2,7 +2,8 @@ export type PythConfig = {
   price: string;
   product: string;
   productName: string;
-  mockPrice: number;
+  // only set for the mock tokens of the testnet
+  mockPrice?: number;
 };
 
 export type TokenConfig = {
@@ -13,3 +14,29 @@ export type TokenConfig = {
   name: string;
   decimals: number;
 };
+
+export type FarmConfigEntry = {
+  name: string;
+  farmInfo: string;
+};
+
+export type PoolConfig = {
+  name: string;
+  base: string;
+  quote: string;
+  mintBase: string;
+  mintQuote: string;
+  swapInfo: string;
+  farmInfoList?: FarmConfigEntry[];
+};
+
+export type DeploymentConfig = {
+  network: string;
+  deltafiMint: string;
+  deltafiToken: string;
+  pythProgramId: string;
+  programId: string;
+  marketConfig: string;
+  poolInfoList: PoolConfig[];
+  tokenInfoList: TokenConfig[];
+};
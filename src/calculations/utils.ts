@@ -6,6 +6,9 @@ import { TokenConfig } from "./types";
 export const WAD_LENGTH = 18;
 export const WAD = new BigNumber(`1e+${WAD_LENGTH}`);
 
+// decimal places of the DELFI token, used by trade, referral and farm rewards
+export const DELTAFI_TOKEN_DECIMALS = 6;
+
 export function BigNumberWithConfig(
   val: number | BigNumber | string,
   object: BigNumber.Config,
@@ -1,4 +1,4 @@
-import { clusterApiUrl, Connection, PublicKey, sendAndConfirmTransaction } from "@solana/web3.js";
+import { Connection, PublicKey, sendAndConfirmTransaction } from "@solana/web3.js";
 import { exit } from "process";
 import {
   createSwapTransaction,
@@ -15,13 +15,20 @@ import {
   readKeypair,
 } from "./utils";
 import { Command } from "commander";
-import * as https from "https";
 import { getSwapOutResult } from "../calculations/swapOutAmount";
-import { calculateMinOutAmountDeposit, calculateWithdrawalFromShares } from "../calculations/calculation";
+import {
+  calculateMinOutAmountDeposit,
+  calculateWithdrawPreview,
+} from "../calculations/calculation";
+import { calculateLiquidityPosition } from "../calculations/lpPosition";
 import { bnToAnchorBn, anchorBnToBn } from "../calculations/tokenUtils";
-import { getDeltafiDexV2, makeProvider } from "../anchor/anchor_utils";
+import { getClusterApiUrl, getDeltafiDexV2, makeProvider } from "../anchor/anchor_utils";
 import { BN } from "@project-serum/anchor";
 import { getSymbolToPythPriceData } from "../anchor/pyth_utils";
+import { decodeDeltafiProgramError } from "../anchor/errors";
+import { fetchRemoteDeploymentConfigs, loadDeploymentConfig } from "../anchor/deployment_config";
+import { verifyDeploymentConfig } from "../anchor/config_verifier";
+import { discoverPools } from "../anchor/pool_discovery";
 import BigNumber from "bignumber.js";
 
 const estimatedPrice = {
@@ -30,6 +37,17 @@ const estimatedPrice = {
   USDC: 1,
 };
 
+// show the deltafi program error if the transaction failed in the program
+const getErrorDisplay = (e: any) => {
+  const programError = decodeDeltafiProgramError(e);
+  if (!programError) {
+    return String(e);
+  }
+  return `${programError.name} (${programError.code}): ${programError.message}, ${
+    programError.retryable ? "retryable" : "not retryable"
+  }`;
+};
+
 // the example transaction logic
 // this function established 2 transaction, first sell USDC for USDT and second sell USDT for USDC
 // because we have to wallet keypair in code base, we just sign the transaction generated by the API
@@ -45,7 +63,7 @@ const doSwap = async (keypairFilePath: string, network: string, poolName: string
   const poolConfig = getPoolConfig(deployConfig, poolName);
   console.info("pool config:", poolConfig);
 
-  const connection = new Connection(clusterApiUrl(deployConfig.network), "confirmed");
+  const connection = new Connection(getClusterApiUrl(deployConfig.network), "confirmed");
   const program = getDeltafiDexV2(
     new PublicKey(deployConfig.programId),
     makeProvider(connection, {}),
@@ -125,7 +143,10 @@ const doSwap = async (keypairFilePath: string, network: string, poolName: string
         signature,
     );
   } catch (e) {
-    console.error(`transaction ${poolConfig.base} -> ${poolConfig.quote} failed with error: ` + e);
+    console.error(
+      `transaction ${poolConfig.base} -> ${poolConfig.quote} failed with error: ` +
+        getErrorDisplay(e),
+    );
     exit(1);
   }
 
@@ -175,7 +196,10 @@ const doSwap = async (keypairFilePath: string, network: string, poolName: string
         signature,
     );
   } catch (e) {
-    console.error(`transaction ${poolConfig.quote} -> ${poolConfig.base} failed with error: ` + e);
+    console.error(
+      `transaction ${poolConfig.quote} -> ${poolConfig.base} failed with error: ` +
+        getErrorDisplay(e),
+    );
     exit(1);
   }
 };
@@ -194,7 +218,7 @@ const doDeposit = async (keypairFilePath: string, network: string, poolName: str
   const quoteTokenConfig = getTokenConfig(deployConfig, poolConfig.quote);
 
   const keyPair = readKeypair(keypairFilePath);
-  const connection = new Connection(clusterApiUrl(deployConfig.network), "confirmed");
+  const connection = new Connection(getClusterApiUrl(deployConfig.network), "confirmed");
 
   const program = getDeltafiDexV2(
     new PublicKey(deployConfig.programId),
@@ -271,7 +295,7 @@ const doDeposit = async (keypairFilePath: string, network: string, poolName: str
     ]);
     console.info("deposit succeeded with signature: " + signature);
   } catch (e) {
-    console.error("deposit failed with error: " + e);
+    console.error("deposit failed with error: " + getErrorDisplay(e));
     exit(1);
   }
 };
@@ -290,7 +314,7 @@ const doWithdraw = async (keypairFilePath: string, network: string, poolName: st
   const quoteTokenConfig = getTokenConfig(deployConfig, poolConfig.quote);
 
   const keyPair = readKeypair(keypairFilePath);
-  const connection = new Connection(clusterApiUrl(deployConfig.network), "confirmed");
+  const connection = new Connection(getClusterApiUrl(deployConfig.network), "confirmed");
 
   const symbolToPythPriceData = await getSymbolToPythPriceData(
     connection,
@@ -331,28 +355,46 @@ const doWithdraw = async (keypairFilePath: string, network: string, poolName: st
     program.programId,
   );
   const lpUser = await program.account.liquidityProvider.fetchNullable(lpPublicKey);
+  if (!lpUser) {
+    console.error("no liquidity position in pool " + poolConfig.name);
+    exit(1);
+  }
+
+  const basePrice = new BigNumber(symbolToPythPriceData[baseTokenConfig.symbol].price);
+  const quotePrice = new BigNumber(symbolToPythPriceData[quoteTokenConfig.symbol].price);
+  const position = calculateLiquidityPosition(
+    lpUser,
+    swapInfo.poolState,
+    baseTokenConfig,
+    quoteTokenConfig,
+    basePrice,
+    quotePrice,
+  );
+  console.info("liquidity position:", position);
 
   // Withdraw all the available shares
-  const baseShare = lpUser.baseShare.toNumber() - lpUser.stakedBaseShare.toNumber();
-  const quoteShare = lpUser.quoteShare.toNumber() - lpUser.stakedBaseShare.toNumber();
+  const baseShare = lpUser.baseShare.sub(lpUser.stakedBaseShare);
+  const quoteShare = lpUser.quoteShare.sub(lpUser.stakedQuoteShare);
   console.info(
-    `Withdrawing ${baseShare} ${baseTokenConfig.symbol} and ` +
-      `${quoteShare} ${quoteTokenConfig.symbol}`,
+    `Withdrawing ${position.freeBaseShare} ${baseTokenConfig.symbol} and ` +
+      `${position.freeQuoteShare} ${quoteTokenConfig.symbol}`,
   );
 
-  const minCoeff = new BigNumber(0.99);
-  const { baseWithdrawalAmount, quoteWithdrawalAmount } = calculateWithdrawalFromShares(
+  // the withdraw fee is charged on the withdrawn amounts, the min amounts are from the net amounts
+  const withdrawPreview = calculateWithdrawPreview(
     baseShare,
     quoteShare,
     baseTokenConfig,
     quoteTokenConfig,
-    symbolToPythPriceData[baseTokenConfig.symbol].price,
-    symbolToPythPriceData[quoteTokenConfig.symbol].price,
-    swapInfo?.poolState,
+    basePrice,
+    quotePrice,
+    swapInfo,
   );
+  console.info("withdraw preview:", withdrawPreview.base, withdrawPreview.quote);
 
-  const minBaseAmount = minCoeff.multipliedBy(new BigNumber(baseWithdrawalAmount));
-  const minQuoteAmount = minCoeff.multipliedBy(new BigNumber(quoteWithdrawalAmount));
+  const minCoeff = new BigNumber(0.99);
+  const minBaseAmount = minCoeff.multipliedBy(new BigNumber(withdrawPreview.base.netAmount));
+  const minQuoteAmount = minCoeff.multipliedBy(new BigNumber(withdrawPreview.quote.netAmount));
 
   try {
     const { transaction, signers } = await createWithdrawTransaction(
@@ -362,8 +404,8 @@ const doWithdraw = async (keypairFilePath: string, network: string, poolName: st
       baseTokenAccount,
       quoteTokenAccount,
       keyPair.publicKey,
-      new BN(baseShare),
-      new BN(quoteShare),
+      baseShare,
+      quoteShare,
       bnToAnchorBn(baseTokenConfig, minBaseAmount),
       bnToAnchorBn(quoteTokenConfig, minQuoteAmount),
     );
@@ -377,33 +419,95 @@ const doWithdraw = async (keypairFilePath: string, network: string, poolName: st
     ]);
     console.info("withdraw succeeded with signature: " + signature);
   } catch (e) {
-    console.error("withdraw failed with error: " + e);
+    console.error("withdraw failed with error: " + getErrorDisplay(e));
     exit(1);
   }
 };
 
 const getConfig = async () => {
-  const options = {
-    hostname: "app.deltafi.trade",
-    port: 443,
-    path: "/api/config",
-    method: "GET",
-  };
-
-  const req = https.request(options, (res) => {
-    res.on("data", (data) => {
-      // pretty print the config json
-      console.log(JSON.stringify(JSON.parse(Buffer.from(data).toString()), null, 2));
-    });
-  });
+  try {
+    const configs = await fetchRemoteDeploymentConfigs();
+    // pretty print the config json
+    console.log(JSON.stringify(configs, null, 2));
+
+    for (const deployment of Object.keys(configs)) {
+      const { source, addedPools, removedPools, error } = await loadDeploymentConfig(deployment);
+      if (source === "bundled") {
+        console.warn(`${deployment}: remote config is not used, ${error}`);
+      } else {
+        console.info(
+          `${deployment}: pools added ${JSON.stringify(addedPools)}, ` +
+            `removed ${JSON.stringify(removedPools)} compared to the bundled config`,
+        );
+      }
+    }
+  } catch (e) {
+    console.error(e);
+  }
+};
 
-  req.on("error", (error) => {
-    console.error(error);
-  });
+const verifyConfig = async (network: string) => {
+  if (network !== "testnet" && network !== "mainnet-beta") {
+    console.error("wrong network!");
+    exit(1);
+  }
+
+  const deployConfig = getDeploymentConfig(network === "mainnet-beta" ? "mainnet-prod" : "testnet");
+  const connection = new Connection(getClusterApiUrl(deployConfig.network), "confirmed");
+  const program = getDeltafiDexV2(
+    new PublicKey(deployConfig.programId),
+    makeProvider(connection, {}),
+  );
+
+  const report = await verifyDeploymentConfig(program, deployConfig);
+  console.log(JSON.stringify(report, null, 2));
+  if (!report.valid) {
+    console.error("deployment config does not match the accounts on chain");
+    exit(1);
+  }
+};
+
+const discoverPoolsOnChain = async (network: string) => {
+  if (network !== "testnet" && network !== "mainnet-beta") {
+    console.error("wrong network!");
+    exit(1);
+  }
+
+  const deployConfig = getDeploymentConfig(network === "mainnet-beta" ? "mainnet-prod" : "testnet");
+  const connection = new Connection(getClusterApiUrl(deployConfig.network), "confirmed");
+  const program = getDeltafiDexV2(
+    new PublicKey(deployConfig.programId),
+    makeProvider(connection, {}),
+  );
 
-  req.end();
+  const { poolInfoList, tokenInfoList } = await discoverPools(
+    program,
+    new PublicKey(deployConfig.marketConfig),
+    deployConfig,
+  );
+  const knownSwapInfos = new Set(deployConfig.poolInfoList.map(({ swapInfo }) => swapInfo));
+  console.log(
+    JSON.stringify(
+      {
+        poolInfoList,
+        tokenInfoList,
+        newPools: poolInfoList
+          .filter(({ swapInfo }) => !knownSwapInfos.has(swapInfo))
+          .map(({ name }) => name),
+      },
+      null,
+      2,
+    ),
+  );
 };
 
+// run the command of an action, a failed command exits with a non-zero code
+const runCommand = (command: () => Promise<void>) =>
+  command().catch((e) => {
+    console.error(e);
+    exit(1);
+  });
+
 const main = () => {
   const program = new Command();
   program
@@ -411,29 +515,39 @@ const main = () => {
     .option("-k --keypair <wallet keypair for example transactions>")
     .option("-n --network <mainnet-beta or testnet>")
     .option("--pool <pool name>")
-    .action(async (option) => {
-      doSwap(option.keypair, option.network, option.pool || "USDC-USDT");
-    });
+    .action((option) =>
+      runCommand(() => doSwap(option.keypair, option.network, option.pool || "USDC-USDT")),
+    );
 
   program
     .command("deposit")
     .option("-k --keypair <wallet keypair for example transactions>")
     .option("-n --network <mainnet-beta or testnet>")
     .option("--pool <pool name>")
-    .action(async (option) => {
-      doDeposit(option.keypair, option.network, option.pool || "USDC-USDT");
-    });
+    .action((option) =>
+      runCommand(() => doDeposit(option.keypair, option.network, option.pool || "USDC-USDT")),
+    );
 
   program
     .command("withdraw")
     .option("-k --keypair <wallet keypair for example transactions>")
     .option("-n --network <mainnet-beta or testnet>")
     .option("--pool <pool name>")
-    .action(async (option) => {
-      doWithdraw(option.keypair, option.network, option.pool || "USDC-USDT");
-    });
+    .action((option) =>
+      runCommand(() => doWithdraw(option.keypair, option.network, option.pool || "USDC-USDT")),
+    );
+
+  program.command("get-config").action(() => runCommand(getConfig));
 
-  program.command("get-config").action(getConfig);
+  program
+    .command("verify-config")
+    .option("-n --network <mainnet-beta or testnet>")
+    .action((option) => runCommand(() => verifyConfig(option.network)));
+
+  program
+    .command("discover-pools")
+    .option("-n --network <mainnet-beta or testnet>")
+    .action((option) => runCommand(() => discoverPoolsOnChain(option.network)));
 
   program.parse(process.argv);
 };
@@ -1,15 +1,11 @@
 import { Connection, PublicKey, Transaction, Keypair, Signer } from "@solana/web3.js";
 import BigNumber from "bignumber.js";
-import fullDeployConfigV2 from "../anchor/fullDeployConfigV2.json";
+import { getBundledDeploymentConfig } from "../anchor/deployment_config";
 import * as fs from "fs";
 import { Token, TOKEN_PROGRAM_ID } from "@solana/spl-token";
 
 export function getDeploymentConfig(deployment: string) {
-  const deploymentConfig = fullDeployConfigV2[deployment];
-  if (!deploymentConfig) {
-    throw Error("Invalid deployment: " + deployment);
-  }
-  return deploymentConfig;
+  return getBundledDeploymentConfig(deployment);
 }
 
 export function getPoolConfig(deployConfig, poolName) {
@@ -0,0 +1,49 @@
+import * as net from "net";
+import { expect } from "chai";
+import {
+  fetchRemoteDeploymentConfigs,
+  loadDeploymentConfig,
+} from "../../src/anchor/deployment_config";
+
+describe("remote deployment config", function () {
+  // a server that accepts the connections and never answers, not even the TLS handshake
+  let server: net.Server;
+  let sockets: net.Socket[] = [];
+  let url: string;
+
+  before(function (done) {
+    server = net.createServer((socket) => {
+      sockets.push(socket);
+    });
+    server.listen(0, "127.0.0.1", () => {
+      url = `https://127.0.0.1:${(server.address() as net.AddressInfo).port}/api/config`;
+      done();
+    });
+  });
+
+  after(function (done) {
+    sockets.forEach((socket) => socket.destroy());
+    sockets = [];
+    server.close(() => done());
+  });
+
+  it("rejects a request without response after the timeout", async function () {
+    let error: Error | undefined;
+    try {
+      await fetchRemoteDeploymentConfigs(url, 100);
+    } catch (e) {
+      error = e;
+    }
+    expect(String(error)).to.contain("timed out after 100ms");
+  });
+
+  it("falls back to the bundled config after the timeout", async function () {
+    const { source, deploymentConfig, error } = await loadDeploymentConfig("mainnet-prod", {
+      url,
+      timeoutMs: 100,
+    });
+    expect(source).to.equal("bundled");
+    expect(deploymentConfig.network).to.equal("mainnet-beta");
+    expect(error).to.contain("timed out after 100ms");
+  });
+});
@@ -0,0 +1,35 @@
+import { expect } from "chai";
+import {
+  AlreadyInUseError,
+  decodeDeltafiSimulationError,
+  WithdrawNotEnoughError,
+} from "../../src/anchor/errors";
+
+describe("decodeDeltafiSimulationError", function () {
+  const decode = (err: any, logs: string[] = []) =>
+    decodeDeltafiSimulationError({ err, logs, accounts: null, unitsConsumed: 0 });
+
+  it("decodes the custom code of the instruction error", function () {
+    expect(decode({ InstructionError: [1, { Custom: 6038 }] })).to.be.instanceOf(
+      WithdrawNotEnoughError,
+    );
+  });
+
+  it("falls back to the program logs", function () {
+    const logs = ["Program log: Error Number: 6000"];
+    expect(decode({ InstructionError: [0, "ProgramFailedToComplete"] }, logs)).to.be.instanceOf(
+      AlreadyInUseError,
+    );
+    expect(decode("AccountNotFound", logs)).to.be.instanceOf(AlreadyInUseError);
+    expect(decode({ InstructionError: { Custom: 6000 } }, logs)).to.be.instanceOf(
+      AlreadyInUseError,
+    );
+  });
+
+  it("returns null for other errors", function () {
+    expect(decode(null)).to.equal(null);
+    expect(decode({ InstructionError: [0, { Custom: 1 }] })).to.equal(null);
+    expect(decode("AccountNotFound")).to.equal(null);
+    expect(decode({ InstructionError: [0, null] })).to.equal(null);
+  });
+});
@@ -0,0 +1,155 @@
+import BigNumber from "bignumber.js";
+import { BN } from "@project-serum/anchor";
+import { expect } from "chai";
+import { EmptyPoolError, InvalidInputError, WithdrawNotEnoughError } from "../../src/anchor/errors";
+import { createPoolSimulator } from "../../src/anchor/pool_simulator";
+import { calculateSwapOutResult } from "../../src/calculations/swapOutAmount";
+import { exponentiate } from "../../src/calculations/utils";
+import { createPubkey, createSwapInfo, sol, usdc } from "../fixtures";
+
+describe("createPoolSimulator", function () {
+  const owner = createPubkey(20);
+
+  describe("initial deposit", function () {
+    const createEmptyPoolSimulator = () => {
+      const poolSimulator = createPoolSimulator(
+        createSwapInfo({ baseToken: sol, quoteToken: usdc, baseReserve: 0, quoteReserve: 0 }),
+      );
+      poolSimulator.setMarketPrice(new BigNumber(30));
+      return poolSimulator;
+    };
+
+    it("mints shares 1:1 with the amounts in the pool ratio", function () {
+      const poolSimulator = createEmptyPoolSimulator();
+      // 10 SOL and 600 USDC, only 300 USDC is in the ratio of the market price
+      const depositResult = poolSimulator.deposit(
+        owner,
+        new BN(10000000000),
+        new BN(600000000),
+        new BN(0),
+        new BN(0),
+      );
+      expect(depositResult.baseAmount.toString()).to.equal("10000000000");
+      expect(depositResult.quoteAmount.toString()).to.equal("300000000");
+      expect(depositResult.baseShare.toString()).to.equal("10000000000");
+      expect(depositResult.quoteShare.toString()).to.equal("300000000");
+
+      const { poolState } = poolSimulator.getSwapInfo();
+      expect(poolState.baseReserve.toString()).to.equal("10000000000");
+      expect(poolState.quoteReserve.toString()).to.equal("300000000");
+      expect(poolState.targetBaseReserve.toString()).to.equal("10000000000");
+      expect(poolState.targetQuoteReserve.toString()).to.equal("300000000");
+      expect(poolState.baseSupply.toString()).to.equal("10000000000");
+      expect(poolState.quoteSupply.toString()).to.equal("300000000");
+      expect(poolSimulator.getLiquidityProvider(owner).baseShare.toString()).to.equal(
+        "10000000000",
+      );
+    });
+
+    it("prices the next deposit with the seeded reserves", function () {
+      const poolSimulator = createEmptyPoolSimulator();
+      poolSimulator.deposit(owner, new BN(10000000000), new BN(300000000), new BN(0), new BN(0));
+      const depositResult = poolSimulator.deposit(
+        createPubkey(21),
+        new BN(1000000000),
+        new BN(30000000),
+        new BN(0),
+        new BN(0),
+      );
+      expect(depositResult.baseShare.toString()).to.equal("1000000000");
+      expect(depositResult.quoteShare.toString()).to.equal("30000000");
+    });
+
+    it("requires both tokens", function () {
+      const poolSimulator = createEmptyPoolSimulator();
+      expect(() =>
+        poolSimulator.deposit(owner, new BN(10000000000), new BN(0), new BN(0), new BN(0)),
+      ).to.throw(InvalidInputError);
+    });
+
+    it("rejects a pool with the supply of only one token", function () {
+      const poolSimulator = createPoolSimulator(
+        createSwapInfo({
+          baseToken: sol,
+          quoteToken: usdc,
+          baseReserve: 10000,
+          quoteReserve: 0,
+        }),
+      );
+      poolSimulator.setMarketPrice(new BigNumber(30));
+      expect(() =>
+        poolSimulator.deposit(owner, new BN(10000000000), new BN(300000000), new BN(0), new BN(0)),
+      ).to.throw(EmptyPoolError);
+    });
+  });
+
+  describe("swap", function () {
+    // 1% of the traded quote amount is rewarded, up to 0.5 DELFI in total
+    const swapInfo = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 10000,
+      quoteReserve: 300000,
+      swapConfig: {
+        tradeRewardNumerator: 1,
+        tradeRewardDenominator: 100,
+        tradeRewardCap: new BN(1000000),
+        tradeRewardMaxReserve: new BN(500000),
+      },
+    });
+
+    it("accumulates the trade reward of the swap", function () {
+      const poolSimulator = createPoolSimulator(swapInfo);
+      poolSimulator.setMarketPrice(new BigNumber(30));
+      poolSimulator.swap({ sellBase: {} }, new BN(1000000000), new BN(0));
+
+      const { tradeReward } = calculateSwapOutResult(
+        swapInfo,
+        sol,
+        usdc,
+        "1",
+        0,
+        new BigNumber(30),
+      );
+      expect(poolSimulator.getSwapInfo().poolState.accumulatedTradeReward.toString()).to.equal(
+        exponentiate(tradeReward, 6).toFixed(),
+      );
+    });
+
+    it("stops rewarding when the max reserve of the trade reward is reached", function () {
+      const poolSimulator = createPoolSimulator(swapInfo);
+      poolSimulator.setMarketPrice(new BigNumber(30));
+      poolSimulator.swap({ sellBase: {} }, new BN(1000000000), new BN(0));
+      poolSimulator.swap({ sellQuote: {} }, new BN(30000000), new BN(0));
+      poolSimulator.swap({ sellBase: {} }, new BN(1000000000), new BN(0));
+      expect(poolSimulator.getSwapInfo().poolState.accumulatedTradeReward.toString()).to.equal(
+        "500000",
+      );
+    });
+  });
+
+  describe("withdraw", function () {
+    it("rejects net amounts below the min amounts with WithdrawNotEnough", function () {
+      const poolSimulator = createPoolSimulator(
+        createSwapInfo({
+          baseToken: sol,
+          quoteToken: usdc,
+          baseReserve: 10000,
+          quoteReserve: 300000,
+        }),
+      );
+      poolSimulator.setMarketPrice(new BigNumber(30));
+      const { baseShare, quoteShare, baseAmount, quoteAmount } = poolSimulator.deposit(
+        owner,
+        new BN(1000000000),
+        new BN(30000000),
+        new BN(0),
+        new BN(0),
+      );
+      // the withdraw fee is charged on the deposited amounts
+      expect(() =>
+        poolSimulator.withdraw(owner, baseShare, quoteShare, baseAmount, quoteAmount),
+      ).to.throw(WithdrawNotEnoughError);
+    });
+  });
+});
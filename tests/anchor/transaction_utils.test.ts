@@ -0,0 +1,288 @@
+import BigNumber from "bignumber.js";
+import { BN } from "@project-serum/anchor";
+import { PACKET_DATA_SIZE, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import { expect } from "chai";
+import { getBundledDeploymentConfig } from "../../src/anchor/deployment_config";
+import { createFixedPriceSource } from "../../src/anchor/price_source";
+import {
+  createClaimAllRewardsTransaction,
+  createExactOutSwapTransaction,
+  createRouteSwapTransactions,
+  createSplitOrderSwapTransactions,
+} from "../../src/anchor/transaction_utils";
+import { DeltafiUser } from "../../src/anchor/type_definitions";
+import { findRoutes, quoteRoute } from "../../src/calculations/routing";
+import { getSplitOrderResult } from "../../src/calculations/splitOrder";
+import { calculateExactOutSwapResult } from "../../src/calculations/swapOutAmount";
+import {
+  createDeltafiUser,
+  createKeypair,
+  decodeInstruction,
+  createOfflineProgram,
+  createPoolConfig,
+  createPubkey,
+  createSwapInfo,
+  msol,
+  TOKEN_ACCOUNT_RENT,
+  sol,
+  usdc,
+} from "../fixtures";
+
+describe("transaction builders", function () {
+  const deployConfig = getBundledDeploymentConfig("mainnet-prod");
+  const program = createOfflineProgram();
+  const walletPubkey = createKeypair(8).publicKey;
+
+  describe("createClaimAllRewardsTransaction", function () {
+    // the first instruction creates the DELFI token account, the claims follow it
+    const getClaimInstructionCount = async (
+      deltafiUser: DeltafiUser | null,
+      owedSwapRewards?: BN,
+    ) => {
+      const claimAllRewards = await createClaimAllRewardsTransaction(
+        deployConfig,
+        program,
+        deltafiUser,
+        walletPubkey,
+        owedSwapRewards,
+      );
+      return claimAllRewards ? claimAllRewards.transaction.instructions.length - 1 : null;
+    };
+
+    it("returns null without a deltafi user", async function () {
+      expect(await getClaimInstructionCount(null)).to.equal(null);
+    });
+
+    it("returns null if nothing is owed", async function () {
+      expect(await getClaimInstructionCount(createDeltafiUser())).to.equal(null);
+    });
+
+    it("claims only the owed rewards", async function () {
+      expect(await getClaimInstructionCount(createDeltafiUser(new BN(1)))).to.equal(1);
+      expect(await getClaimInstructionCount(createDeltafiUser(new BN(0), new BN(1)))).to.equal(1);
+      expect(await getClaimInstructionCount(createDeltafiUser(new BN(1), new BN(1)))).to.equal(2);
+      expect(await getClaimInstructionCount(createDeltafiUser(), new BN(1))).to.equal(1);
+    });
+  });
+
+  describe("createExactOutSwapTransaction", function () {
+    // the max swap out amount of the pool is 10% of the USDC reserve, 30000 USDC
+    const swapInfo = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 10000,
+      quoteReserve: 300000,
+    });
+    const poolConfig = createPoolConfig(sol, usdc, 30);
+    const createTransaction = (amountOut: string) =>
+      createExactOutSwapTransaction(
+        poolConfig,
+        program,
+        swapInfo,
+        createDeltafiUser(),
+        walletPubkey,
+        createPubkey(31),
+        createPubkey(32),
+        sol,
+        usdc,
+        calculateExactOutSwapResult(swapInfo, sol, usdc, amountOut, 1, new BigNumber(30)),
+      );
+
+    it("sends the max amount in and requires the exact amount out", async function () {
+      const { transaction } = await createTransaction("100");
+      const { data } = transaction.instructions
+        .map((instruction) => decodeInstruction(program, instruction))
+        .find((decoded) => decoded?.name === "normalSwap");
+      expect(data.minAmountOut.toString()).to.equal("100000000");
+      expect(data.amountIn.gt(new BN("3000000000"))).to.equal(true);
+    });
+
+    // the net amount out is within the limit, but the gross amount of the max amount in is not
+    it("rejects a swap whose gross amount out exceeds the max swap out amount", async function () {
+      let error: Error | undefined;
+      try {
+        await createTransaction("29950");
+      } catch (e) {
+        error = e;
+      }
+      expect(String(error)).to.contain("Exceeded swap out amount");
+    });
+  });
+
+  describe("createRouteSwapTransactions", function () {
+    const msolSolPoolConfig = createPoolConfig(msol, sol, 40);
+    const solUsdcPoolConfig = createPoolConfig(sol, usdc, 41);
+    const poolToSwapInfo = {
+      [msolSolPoolConfig.swapInfo]: createSwapInfo({
+        baseToken: msol,
+        quoteToken: sol,
+        baseReserve: 100000,
+        quoteReserve: 110000,
+        accountSeed: 50,
+      }),
+      [solUsdcPoolConfig.swapInfo]: createSwapInfo({
+        baseToken: sol,
+        quoteToken: usdc,
+        baseReserve: 100000,
+        quoteReserve: 3000000,
+        accountSeed: 60,
+      }),
+    };
+    const [routeHops] = findRoutes(
+      { poolInfoList: [msolSolPoolConfig, solUsdcPoolConfig], tokenInfoList: [msol, sol, usdc] },
+      msol,
+      usdc,
+    );
+    const mintToUserTokenPubkey = {
+      [msol.mint]: createPubkey(33),
+      [usdc.mint]: createPubkey(34),
+    };
+    const createTransactions = async (deltafiUser: DeltafiUser | null, referrer?: PublicKey) =>
+      createRouteSwapTransactions(
+        program,
+        await quoteRoute(
+          routeHops,
+          poolToSwapInfo,
+          createFixedPriceSource({ MSOL: 33, SOL: 30, USDC: 1 }),
+          "10",
+          1,
+        ),
+        poolToSwapInfo,
+        deltafiUser,
+        walletPubkey,
+        mintToUserTokenPubkey,
+        { referrer },
+      );
+    const serialize = ({ transaction, signers }) => {
+      const signedTransaction = new Transaction({
+        recentBlockhash: PublicKey.default.toBase58(),
+        feePayer: walletPubkey,
+      }).add(transaction);
+      signers.forEach((signer) => signedTransaction.partialSign(signer));
+      return signedTransaction.serialize({ requireAllSignatures: false });
+    };
+
+    it("fits the mSOL to SOL to USDC route in the packet size", async function () {
+      for (const deltafiUser of [createDeltafiUser(), null]) {
+        const transactions = await createTransactions(deltafiUser, createPubkey(35));
+        transactions.forEach((transaction) => {
+          expect(serialize(transaction).length).to.be.at.most(PACKET_DATA_SIZE);
+        });
+      }
+    });
+
+    it("swaps an existing user's route in one transaction", async function () {
+      const transactions = await createTransactions(createDeltafiUser());
+      expect(transactions.length).to.equal(1);
+    });
+
+    it("passes the intermediate SOL through one wrapped SOL account", async function () {
+      const transactions = await createTransactions(null);
+      const instructions = transactions.reduce(
+        (allInstructions, { transaction }) => allInstructions.concat(transaction.instructions),
+        [],
+      );
+      const createAccountInstructions = instructions.filter((instruction) =>
+        instruction.programId.equals(SystemProgram.programId),
+      );
+      expect(createAccountInstructions.length).to.equal(1);
+      const wrappedSolPubkey = createAccountInstructions[0].keys[1].pubkey;
+
+      const [firstHop, secondHop] = instructions.filter(
+        (instruction) => decodeInstruction(program, instruction)?.name === "normalSwap",
+      );
+      // the accounts of a swap start with the market config, the pool and the user's token accounts
+      expect(firstHop.keys[2].pubkey.equals(mintToUserTokenPubkey[msol.mint])).to.equal(true);
+      expect(firstHop.keys[3].pubkey.equals(wrappedSolPubkey)).to.equal(true);
+      expect(secondHop.keys[2].pubkey.equals(wrappedSolPubkey)).to.equal(true);
+      expect(secondHop.keys[3].pubkey.equals(mintToUserTokenPubkey[usdc.mint])).to.equal(true);
+    });
+  });
+
+  describe("createSplitOrderSwapTransactions", function () {
+    // 4 identical pools, the order is split evenly across them
+    const poolConfigs = [50, 51, 52, 53].map((seed) => createPoolConfig(sol, usdc, seed));
+    const poolToSwapInfo = {};
+    poolConfigs.forEach((poolConfig, i) => {
+      poolToSwapInfo[poolConfig.swapInfo] = createSwapInfo({
+        baseToken: sol,
+        quoteToken: usdc,
+        baseReserve: 10000,
+        quoteReserve: 300000,
+        accountSeed: 70 + i * 4,
+      });
+    });
+    const inputTokenPubkey = createPubkey(31);
+    const outputTokenPubkey = createPubkey(32);
+    const createTransactions = async () =>
+      createSplitOrderSwapTransactions(
+        program,
+        await getSplitOrderResult(
+          { poolInfoList: poolConfigs },
+          poolToSwapInfo,
+          createFixedPriceSource({ SOL: 30, USDC: 1 }),
+          sol,
+          usdc,
+          "100",
+          1,
+        ),
+        poolToSwapInfo,
+        null,
+        walletPubkey,
+        inputTokenPubkey,
+        outputTokenPubkey,
+        sol,
+        usdc,
+      );
+
+    it("splits the swaps that do not fit in one transaction", async function () {
+      const transactions = await createTransactions();
+      expect(transactions.length).to.be.greaterThan(1);
+      transactions.forEach(({ transaction, signers }) => {
+        const signedTransaction = new Transaction({
+          recentBlockhash: PublicKey.default.toBase58(),
+          feePayer: walletPubkey,
+        }).add(transaction);
+        signers.forEach((signer) => signedTransaction.partialSign(signer));
+        expect(signedTransaction.serialize({ requireAllSignatures: false }).length).to.be.at.most(
+          PACKET_DATA_SIZE,
+        );
+      });
+
+      const swapInstructions = transactions
+        .reduce(
+          (instructions, { transaction }) => instructions.concat(transaction.instructions),
+          [],
+        )
+        .filter((instruction) => decodeInstruction(program, instruction)?.name === "normalSwap");
+      expect(
+        swapInstructions.map((instruction) => instruction.keys[1].pubkey.toBase58()),
+      ).to.deep.equal(poolConfigs.map(({ swapInfo }) => swapInfo));
+    });
+
+    it("wraps the SOL of all swaps in one account of the first transaction", async function () {
+      const transactions = await createTransactions();
+      const [createWrappedSolInstruction, ...otherInstructions] = transactions
+        .reduce(
+          (instructions, { transaction }) => instructions.concat(transaction.instructions),
+          [],
+        )
+        .filter((instruction) => instruction.programId.equals(SystemProgram.programId));
+      expect(otherInstructions.length).to.equal(0);
+      expect(transactions[0].transaction.instructions[0]).to.equal(createWrappedSolInstruction);
+      // rent and the 100 SOL of the order
+      expect(createWrappedSolInstruction.data.readBigUInt64LE(4).toString()).to.equal(
+        new BN(TOKEN_ACCOUNT_RENT).add(new BN("100000000000")).toString(),
+      );
+      const wrappedSolPubkey = createWrappedSolInstruction.keys[1].pubkey;
+      expect(transactions[0].signers.map(({ publicKey }) => publicKey.toBase58())).to.include(
+        wrappedSolPubkey.toBase58(),
+      );
+      transactions.slice(1).forEach(({ signers }) => {
+        expect(signers.map(({ publicKey }) => publicKey.toBase58())).to.not.include(
+          wrappedSolPubkey.toBase58(),
+        );
+      });
+    });
+  });
+});
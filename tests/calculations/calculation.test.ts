@@ -0,0 +1,151 @@
+import BigNumber from "bignumber.js";
+import { BN } from "@project-serum/anchor";
+import { expect } from "chai";
+import fc from "fast-check";
+import { createPoolSimulator } from "../../src/anchor/pool_simulator";
+import { SwapInfo } from "../../src/anchor/type_definitions";
+import {
+  calculateMinOutAmountDeposit,
+  calculateWithdrawFees,
+} from "../../src/calculations/calculation";
+import { normalizeMarketPriceWithDecimals } from "../../src/calculations/swapOutAmount";
+import { createPubkey, createSwapConfig, createSwapInfo, sol, usdc, usdt } from "../fixtures";
+
+describe("calculateWithdrawFees", function () {
+  it("splits the withdraw fee into the LP fee and the admin fee", function () {
+    const { withdrawFee, lpFee, adminFee, netAmount } = calculateWithdrawFees(
+      new BN(1000001),
+      createSwapConfig(),
+    );
+    expect(withdrawFee.toString()).to.equal("1000");
+    expect(adminFee.toString()).to.equal("500");
+    expect(lpFee.toString()).to.equal("500");
+    expect(netAmount.toString()).to.equal("999001");
+  });
+
+  it("charges no fee with a zero denominator", function () {
+    const { withdrawFee, netAmount } = calculateWithdrawFees(
+      new BN(1000000),
+      createSwapConfig({ withdrawFeeDenominator: 0 }),
+    );
+    expect(withdrawFee.toString()).to.equal("0");
+    expect(netAmount.toString()).to.equal("1000000");
+  });
+});
+
+describe("deposit and withdraw round trip", function () {
+  const testPools: { name: string; swapInfo: SwapInfo; marketPrice: BigNumber }[] = [
+    {
+      name: "6/6 stable swap",
+      swapInfo: createSwapInfo({
+        baseToken: usdc,
+        quoteToken: usdt,
+        baseReserve: 1000000,
+        quoteReserve: 1000000,
+        swapType: { stableSwap: {} },
+      }),
+      marketPrice: new BigNumber(1),
+    },
+    {
+      name: "9/6 imbalanced normal swap",
+      swapInfo: createSwapInfo({
+        baseToken: sol,
+        quoteToken: usdc,
+        baseReserve: 10000,
+        quoteReserve: 300000,
+        targetBaseReserve: 11000,
+        targetQuoteReserve: 270000,
+      }),
+      marketPrice: new BigNumber(30),
+    },
+  ];
+  const owner = createPubkey(20);
+  // deposit amounts in raw unit, up to 10% of the reserves
+  const depositArbitrary = (swapInfo: SwapInfo) =>
+    fc.tuple(
+      fc
+        .integer({ min: 1, max: 100000 })
+        .map((ppm) => swapInfo.poolState.baseReserve.muln(ppm).divn(1000000).addn(1)),
+      fc
+        .integer({ min: 1, max: 100000 })
+        .map((ppm) => swapInfo.poolState.quoteReserve.muln(ppm).divn(1000000).addn(1)),
+    );
+
+  testPools.forEach(({ name, swapInfo, marketPrice }) => {
+    const normalizedMarketPrice = normalizeMarketPriceWithDecimals(
+      marketPrice,
+      swapInfo.mintBaseDecimals,
+      swapInfo.mintQuoteDecimals,
+    );
+
+    it(`${name}: deposit shares match calculateMinOutAmountDeposit`, function () {
+      fc.assert(
+        fc.property(depositArbitrary(swapInfo), ([baseAmount, quoteAmount]) => {
+          const poolSimulator = createPoolSimulator(swapInfo);
+          poolSimulator.setMarketPrice(marketPrice);
+          const { baseShare, quoteShare } = poolSimulator.deposit(
+            owner,
+            baseAmount,
+            quoteAmount,
+            new BN(0),
+            new BN(0),
+          );
+
+          const { minBaseShare, minQuoteShare } = calculateMinOutAmountDeposit(
+            swapInfo,
+            new BigNumber(baseAmount.toString()),
+            new BigNumber(quoteAmount.toString()),
+            normalizedMarketPrice,
+            new BigNumber(1),
+          );
+          return (
+            minBaseShare.isEqualTo(baseShare.toString()) &&
+            minQuoteShare.isEqualTo(quoteShare.toString())
+          );
+        }),
+        { numRuns: 50 },
+      );
+    });
+
+    it(`${name}: withdrawing the deposited shares returns no more than the deposit`, function () {
+      // value of the amounts in raw quote token
+      const getValue = (baseAmount: BN, quoteAmount: BN) =>
+        normalizedMarketPrice.multipliedBy(baseAmount.toString()).plus(quoteAmount.toString());
+
+      fc.assert(
+        fc.property(depositArbitrary(swapInfo), ([baseAmount, quoteAmount]) => {
+          const poolSimulator = createPoolSimulator(swapInfo);
+          poolSimulator.setMarketPrice(marketPrice);
+          const depositResult = poolSimulator.deposit(
+            owner,
+            baseAmount,
+            quoteAmount,
+            new BN(0),
+            new BN(0),
+          );
+          const withdrawResult = poolSimulator.withdraw(
+            owner,
+            depositResult.baseShare,
+            depositResult.quoteShare,
+            new BN(0),
+            new BN(0),
+          );
+
+          // an imbalanced pool returns the tokens in another ratio, so the values are compared
+          // before the withdraw fee, the value loses at most the rounding of the shares and amounts
+          const depositValue = getValue(depositResult.baseAmount, depositResult.quoteAmount);
+          const withdrawValue = getValue(
+            withdrawResult.baseAmount.add(withdrawResult.baseWithdrawFee),
+            withdrawResult.quoteAmount.add(withdrawResult.quoteWithdrawFee),
+          );
+          const maxRoundingLoss = normalizedMarketPrice.plus(1).multipliedBy(2);
+          return (
+            withdrawValue.isLessThanOrEqualTo(depositValue) &&
+            withdrawValue.isGreaterThanOrEqualTo(depositValue.minus(maxRoundingLoss))
+          );
+        }),
+        { numRuns: 50 },
+      );
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import BigNumber from "bignumber.js";
+import { expect } from "chai";
+import { approximateOutAmount } from "../../src/calculations/approximation";
+import {
+  approximateOutAmountInteger,
+  calculateOutAmountNormalSwapInteger,
+  calculateOutAmountNormalSwapInternalInteger,
+  calculateTradeFeeInteger,
+  getVirtualReservesInteger,
+  toWadFloor,
+} from "../../src/calculations/integerCurve";
+import { getVirtualReserves } from "../../src/calculations/swapOutAmount";
+import { createSwapConfig, createSwapInfo, sol, usdc } from "../fixtures";
+
+describe("integer curve", function () {
+  // 10000 SOL and 300000 USDC in raw unit, with the normalized market price of 0.03 USDC per lamport
+  const marketPrice = new BigNumber("0.03");
+  const baseReserve = BigInt("10000000000000");
+  const quoteReserve = BigInt("300000000000");
+
+  it("approximates the out amount like the float approximation", function () {
+    const inputAmount = BigInt("1000000000");
+    const { impliedOutAmount, approximationResult } = approximateOutAmountInteger(
+      baseReserve,
+      quoteReserve,
+      baseReserve,
+      quoteReserve,
+      toWadFloor(marketPrice),
+      inputAmount,
+    );
+    const floatResult = approximateOutAmount(
+      new BigNumber(baseReserve.toString()),
+      new BigNumber(quoteReserve.toString()),
+      new BigNumber(baseReserve.toString()),
+      new BigNumber(quoteReserve.toString()),
+      marketPrice,
+      new BigNumber(inputAmount.toString()),
+    );
+    expect(impliedOutAmount.toString()).to.equal(floatResult.impliedOutAmount.toString());
+    expect(Number(approximationResult)).to.be.within(
+      floatResult.approximationResult - 1,
+      floatResult.approximationResult,
+    );
+  });
+
+  it("takes the max of the approximation and the calculation", function () {
+    [BigInt(1), BigInt("1000000000"), BigInt("100000000000"), BigInt("1000000000000")].forEach(
+      (inputAmount) => {
+        const { impliedOutAmount, approximationResult } = approximateOutAmountInteger(
+          baseReserve,
+          quoteReserve,
+          baseReserve,
+          quoteReserve,
+          toWadFloor(marketPrice),
+          inputAmount,
+        );
+        const calculationResult = calculateOutAmountNormalSwapInternalInteger(
+          toWadFloor(marketPrice),
+          baseReserve,
+          quoteReserve,
+          baseReserve,
+          quoteReserve,
+          inputAmount,
+        );
+        const outAmount = calculateOutAmountNormalSwapInteger(
+          toWadFloor(marketPrice),
+          baseReserve,
+          quoteReserve,
+          baseReserve,
+          quoteReserve,
+          inputAmount,
+        );
+
+        expect(outAmount >= calculationResult).to.equal(true);
+        expect(approximationResult === null || outAmount >= approximationResult).to.equal(true);
+        expect(outAmount <= impliedOutAmount).to.equal(true);
+      },
+    );
+  });
+
+  it("rounds the virtual reserves down", function () {
+    const swapInfo = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 9000.000000001,
+      quoteReserve: 330000.000001,
+      targetBaseReserve: 10000,
+      targetQuoteReserve: 300000,
+      swapConfig: { virtualReservePercentage: 7 },
+    });
+    const { virtualBaseReserve, virtualQuoteReserve } = getVirtualReservesInteger(
+      swapInfo.poolState,
+      swapInfo.swapConfig,
+      toWadFloor(marketPrice),
+    );
+    const floatVirtualReserves = getVirtualReserves(swapInfo, marketPrice);
+    expect(virtualBaseReserve.toString()).to.equal(
+      floatVirtualReserves.virtualBaseReserve.integerValue(BigNumber.ROUND_FLOOR).toFixed(),
+    );
+    expect(virtualQuoteReserve.toString()).to.equal(
+      floatVirtualReserves.virtualQuoteReserve.integerValue(BigNumber.ROUND_FLOOR).toFixed(),
+    );
+  });
+
+  it("rounds the trade fee up", function () {
+    expect(calculateTradeFeeInteger(BigInt(1000001), createSwapConfig()).toString()).to.equal(
+      "3001",
+    );
+    expect(calculateTradeFeeInteger(BigInt(1000000), createSwapConfig()).toString()).to.equal(
+      "3000",
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import BigNumber from "bignumber.js";
+import { BN } from "@project-serum/anchor";
+import { expect } from "chai";
+import { calculateLiquidityPosition } from "../../src/calculations/lpPosition";
+import { createLiquidityProvider, createSwapInfo, sol, usdc } from "../fixtures";
+
+describe("calculateLiquidityPosition", function () {
+  const basePrice = new BigNumber(30);
+  const quotePrice = new BigNumber(1);
+
+  it("values a position without staked shares", function () {
+    // 100 SOL and 3000 USDC shares, 1% of the pool
+    const lpUser = createLiquidityProvider(new BN("100000000000"), new BN("3000000000"));
+    const { poolState } = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 10000,
+      quoteReserve: 300000,
+    });
+
+    expect(
+      calculateLiquidityPosition(lpUser, poolState, sol, usdc, basePrice, quotePrice),
+    ).to.deep.equal({
+      baseShare: "100.000000000",
+      quoteShare: "3000.000000",
+      stakedBaseShare: "0.000000000",
+      stakedQuoteShare: "0.000000",
+      freeBaseShare: "100.000000000",
+      freeQuoteShare: "3000.000000",
+      basePoolShare: "0.01",
+      quotePoolShare: "0.01",
+      baseAmount: "100",
+      quoteAmount: "3000",
+      freeBaseAmount: "100",
+      freeQuoteAmount: "3000",
+      baseValue: "3000.00",
+      quoteValue: "3000.00",
+      totalValue: "6000.00",
+    });
+  });
+
+  it("values the staked shares but only redeems the free shares", function () {
+    // 40 SOL and 1000 USDC of the shares are staked in a farm
+    const lpUser = createLiquidityProvider(
+      new BN("100000000000"),
+      new BN("3000000000"),
+      new BN("40000000000"),
+      new BN("1000000000"),
+    );
+    const { poolState } = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 10000,
+      quoteReserve: 300000,
+    });
+
+    const position = calculateLiquidityPosition(
+      lpUser,
+      poolState,
+      sol,
+      usdc,
+      basePrice,
+      quotePrice,
+    );
+    expect(position.stakedBaseShare).to.equal("40.000000000");
+    expect(position.stakedQuoteShare).to.equal("1000.000000");
+    expect(position.freeBaseShare).to.equal("60.000000000");
+    expect(position.freeQuoteShare).to.equal("2000.000000");
+    expect(position.baseAmount).to.equal("100");
+    expect(position.quoteAmount).to.equal("3000");
+    expect(position.freeBaseAmount).to.equal("60");
+    expect(position.freeQuoteAmount).to.equal("2000");
+    expect(position.totalValue).to.equal("6000.00");
+  });
+
+  it("values a position of an imbalanced pool with the pool's withdrawal amounts", function () {
+    const lpUser = createLiquidityProvider(
+      new BN("100000000000"),
+      new BN("3000000000"),
+      new BN("40000000000"),
+      new BN("1000000000"),
+    );
+    // the pool is short of SOL, it pays out less SOL and more USDC of the same value
+    const { poolState } = createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 9000,
+      quoteReserve: 330000,
+      targetBaseReserve: 10000,
+      targetQuoteReserve: 300000,
+    });
+
+    const position = calculateLiquidityPosition(
+      lpUser,
+      poolState,
+      sol,
+      usdc,
+      basePrice,
+      quotePrice,
+    );
+    expect(position.basePoolShare).to.equal("0.01");
+    expect(position.quotePoolShare).to.equal("0.01");
+    expect(position.baseAmount).to.equal("90");
+    expect(position.quoteAmount).to.equal("3300");
+    expect(position.freeBaseAmount).to.equal("54");
+    expect(position.freeQuoteAmount).to.equal("2180");
+    expect(position.baseValue).to.equal("2700.00");
+    expect(position.quoteValue).to.equal("3300.00");
+    expect(position.totalValue).to.equal("6000.00");
+  });
+});
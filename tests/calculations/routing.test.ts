@@ -0,0 +1,115 @@
+import BigNumber from "bignumber.js";
+import { expect } from "chai";
+import { createFixedPriceSource } from "../../src/anchor/price_source";
+import { findRoutes, getBestRoute, quoteRoute } from "../../src/calculations/routing";
+import { calculateSwapOutResult } from "../../src/calculations/swapOutAmount";
+import { createPoolConfig, createSwapInfo, msol, sol, usdc } from "../fixtures";
+
+describe("routing", function () {
+  const priceSource = createFixedPriceSource({ MSOL: 33, SOL: 30, USDC: 1 });
+  const msolSolPoolConfig = createPoolConfig(msol, sol, 40);
+  const solUsdcPoolConfig = createPoolConfig(sol, usdc, 41);
+  const msolUsdcPoolConfig = createPoolConfig(msol, usdc, 42);
+  const deploymentConfig = {
+    poolInfoList: [msolSolPoolConfig, solUsdcPoolConfig, msolUsdcPoolConfig],
+    tokenInfoList: [msol, sol, usdc],
+  };
+  const poolToSwapInfo = {
+    [msolSolPoolConfig.swapInfo]: createSwapInfo({
+      baseToken: msol,
+      quoteToken: sol,
+      baseReserve: 100000,
+      quoteReserve: 110000,
+    }),
+    [solUsdcPoolConfig.swapInfo]: createSwapInfo({
+      baseToken: sol,
+      quoteToken: usdc,
+      baseReserve: 100000,
+      quoteReserve: 3000000,
+    }),
+    // the direct pool charges 0.9%, more than the 0.3% of each hop of the 2-hop route
+    // but less than the 2-hop route with the slippage of its first hop
+    [msolUsdcPoolConfig.swapInfo]: createSwapInfo({
+      baseToken: msol,
+      quoteToken: usdc,
+      baseReserve: 100000,
+      quoteReserve: 3300000,
+      swapConfig: { tradeFeeNumerator: 9 },
+    }),
+  };
+  const [twoHopRoute] = findRoutes(deploymentConfig, msol, usdc).filter(
+    (hops) => hops.length === 2,
+  );
+
+  it("chains the expected amount out through the hops", async function () {
+    const routeQuote = await quoteRoute(twoHopRoute, poolToSwapInfo, priceSource, "10", 1);
+    const [firstHopResult, secondHopResult] = routeQuote.hopResults;
+
+    const expectedSecondHopResult = calculateSwapOutResult(
+      poolToSwapInfo[solUsdcPoolConfig.swapInfo],
+      sol,
+      usdc,
+      firstHopResult.amountOut,
+      1,
+      new BigNumber(30),
+      new BigNumber(30),
+      new BigNumber(30),
+    );
+    expect(secondHopResult.amountOut).to.equal(expectedSecondHopResult.amountOut);
+    expect(routeQuote.amountOut).to.equal(expectedSecondHopResult.amountOut);
+  });
+
+  it("sends the min amount out of the previous hop to the next hop", async function () {
+    const routeQuote = await quoteRoute(twoHopRoute, poolToSwapInfo, priceSource, "10", 1);
+    const [firstHopResult] = routeQuote.hopResults;
+
+    expect(routeQuote.hopAmountsIn).to.deep.equal(["10", firstHopResult.amountOutWithSlippage]);
+    expect(routeQuote.hopMinAmountsOut[0]).to.equal(firstHopResult.amountOutWithSlippage);
+    expect(routeQuote.amountOutWithSlippage).to.equal(routeQuote.hopMinAmountsOut[1]);
+
+    const secondHopMinResult = calculateSwapOutResult(
+      poolToSwapInfo[solUsdcPoolConfig.swapInfo],
+      sol,
+      usdc,
+      firstHopResult.amountOutWithSlippage,
+      1,
+      new BigNumber(30),
+    );
+    expect(routeQuote.hopMinAmountsOut[1]).to.equal(secondHopMinResult.amountOutWithSlippage);
+    expect(
+      new BigNumber(routeQuote.amountOutWithSlippage).isLessThan(routeQuote.amountOut),
+    ).to.equal(true);
+  });
+
+  it("ranks the routes by their expected amount out", async function () {
+    const directRouteQuote = await quoteRoute(
+      [findRoutes(deploymentConfig, msol, usdc).find((hops) => hops.length === 1)[0]],
+      poolToSwapInfo,
+      priceSource,
+      "10",
+      1,
+    );
+    const twoHopRouteQuote = await quoteRoute(twoHopRoute, poolToSwapInfo, priceSource, "10", 1);
+    // the direct pool is better than the 2-hop route quoted with the slippage of the first hop
+    expect(
+      new BigNumber(directRouteQuote.amountOut).isGreaterThan(
+        twoHopRouteQuote.hopResults[1].amountOutWithSlippage,
+      ),
+    ).to.equal(true);
+
+    const bestRouteQuote = await getBestRoute(
+      deploymentConfig,
+      poolToSwapInfo,
+      priceSource,
+      msol,
+      usdc,
+      "10",
+      1,
+    );
+    expect(bestRouteQuote.hops.map(({ poolConfig }) => poolConfig.name)).to.deep.equal([
+      "MSOL-SOL",
+      "SOL-USDC",
+    ]);
+    expect(bestRouteQuote.amountOut).to.equal(twoHopRouteQuote.amountOut);
+  });
+});
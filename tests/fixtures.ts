@@ -0,0 +1,242 @@
+import BigNumber from "bignumber.js";
+import { Connection, Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { BN, BorshInstructionCoder, Program } from "@project-serum/anchor";
+import { getDeltafiDexV2, makeProvider } from "../src/anchor/anchor_utils";
+import { DeltafiDexV2 } from "../src/anchor/types/deltafi_dex_v2";
+import {
+  DeltafiUser,
+  LiquidityProvider,
+  SwapConfig,
+  SwapInfo,
+  SwapType,
+} from "../src/anchor/type_definitions";
+import { PoolConfig, TokenConfig } from "../src/calculations/types";
+import { exponentiate, WAD } from "../src/calculations/utils";
+
+// deterministic public key filled with one byte
+export function createPubkey(seed: number): PublicKey {
+  return new PublicKey(Buffer.alloc(32, seed));
+}
+
+// deterministic keypair, the owners of token accounts have to be on the curve
+export function createKeypair(seed: number): Keypair {
+  return Keypair.fromSeed(new Uint8Array(32).fill(seed));
+}
+
+export function createTokenConfig(symbol: string, decimals: number, seed: number): TokenConfig {
+  return {
+    name: symbol,
+    symbol,
+    mint: createPubkey(seed).toBase58(),
+    decimals,
+    logoURI: "",
+    pyth: {
+      price: createPubkey(seed + 100).toBase58(),
+      product: "",
+      productName: "",
+      mockPrice: 0,
+    },
+  };
+}
+
+export const usdc = createTokenConfig("USDC", 6, 10);
+export const usdt = createTokenConfig("USDT", 6, 11);
+export const sol = createTokenConfig("SOL", 9, 12);
+export const msol = createTokenConfig("MSOL", 6, 13);
+
+export function createSwapConfig(overrides: Partial<SwapConfig> = {}): SwapConfig {
+  return {
+    isPaused: false,
+    enableConfidenceInterval: false,
+    maxSwapPercentage: 10,
+    minReserveLimitPercentage: 10,
+    serumMarketTokenRatioLimitPercentage: 0,
+    adminTradeFeeNumerator: 1,
+    adminTradeFeeDenominator: 2,
+    adminWithdrawFeeNumerator: 1,
+    adminWithdrawFeeDenominator: 2,
+    tradeFeeNumerator: 3,
+    tradeFeeDenominator: 1000,
+    withdrawFeeNumerator: 1,
+    withdrawFeeDenominator: 1000,
+    tradeRewardNumerator: 0,
+    tradeRewardDenominator: 1,
+    referralRewardNumerator: 0,
+    referralRewardDenominator: 1,
+    maxStablePriceDiffNumerator: 1,
+    maxStablePriceDiffDenominator: 100,
+    tradeRewardCap: new BN(0),
+    tradeRewardMaxReserve: new BN(0),
+    slope: new BN(new BigNumber(WAD).multipliedBy(0.1).toFixed(0)),
+    disableStablePriceDiffCheck: false,
+    disableQuoteTokenPriceCheck: false,
+    rebateNumerator: 0,
+    rebateDenominator: 1,
+    virtualReservePercentage: 0,
+    reservedU8: [],
+    reservedU64: [],
+    ...overrides,
+  };
+}
+
+export type TestPoolOptions = {
+  baseToken: TokenConfig;
+  quoteToken: TokenConfig;
+  // reserves in UI unit, the pool is balanced at its reserves unless target reserves are set
+  baseReserve: BigNumber.Value;
+  quoteReserve: BigNumber.Value;
+  targetBaseReserve?: BigNumber.Value;
+  targetQuoteReserve?: BigNumber.Value;
+  // supplies in UI unit, the target reserves by default, so a share is worth one token
+  baseSupply?: BigNumber.Value;
+  quoteSupply?: BigNumber.Value;
+  swapType?: SwapType;
+  swapConfig?: Partial<SwapConfig>;
+  // seed of the pool's token accounts, the pools of a transaction need distinct seeds
+  accountSeed?: number;
+};
+
+export function createSwapInfo(options: TestPoolOptions): SwapInfo {
+  const { baseToken, quoteToken } = options;
+  const accountSeed = options.accountSeed ?? 3;
+  const toRaw = (amount: BigNumber.Value, tokenConfig: TokenConfig) =>
+    new BN(exponentiate(new BigNumber(amount), tokenConfig.decimals).toFixed(0));
+
+  return {
+    isInitialized: true,
+    bump: 0,
+    seed: createPubkey(1),
+    swapType: options.swapType || { normalSwap: {} },
+    configKey: createPubkey(2),
+    mintBase: new PublicKey(baseToken.mint),
+    mintQuote: new PublicKey(quoteToken.mint),
+    tokenBase: createPubkey(accountSeed),
+    tokenQuote: createPubkey(accountSeed + 1),
+    adminFeeTokenBase: createPubkey(accountSeed + 2),
+    adminFeeTokenQuote: createPubkey(accountSeed + 3),
+    mintBaseDecimals: baseToken.decimals,
+    mintQuoteDecimals: quoteToken.decimals,
+    pythPriceBase: new PublicKey(baseToken.pyth.price),
+    pythPriceQuote: new PublicKey(quoteToken.pyth.price),
+    serumMarket: PublicKey.default,
+    serumBids: PublicKey.default,
+    serumAsks: PublicKey.default,
+    poolState: {
+      marketPrice: new BN(0),
+      baseReserve: toRaw(options.baseReserve, baseToken),
+      quoteReserve: toRaw(options.quoteReserve, quoteToken),
+      targetBaseReserve: toRaw(options.targetBaseReserve ?? options.baseReserve, baseToken),
+      targetQuoteReserve: toRaw(options.targetQuoteReserve ?? options.quoteReserve, quoteToken),
+      baseSupply: toRaw(
+        options.baseSupply ?? options.targetBaseReserve ?? options.baseReserve,
+        baseToken,
+      ),
+      quoteSupply: toRaw(
+        options.quoteSupply ?? options.targetQuoteReserve ?? options.quoteReserve,
+        quoteToken,
+      ),
+      totalTradedBase: new BN(0),
+      totalTradedQuote: new BN(0),
+      accumulatedTradeReward: new BN(0),
+      lastUpdateTimestamp: new BN(0),
+      marketPriceLastUpdateSlot: new BN(0),
+      lowPrice: new BN(0),
+      highPrice: new BN(0),
+      currentDayTradedQuote: new BN(0),
+      lastDayTradedQuote: new BN(0),
+      currentWeekTradedQuote: new BN(0),
+      lastWeekTradedQuote: new BN(0),
+      reservedU64: [],
+    },
+    swapConfig: createSwapConfig(options.swapConfig),
+    reservedU64: [],
+  };
+}
+
+export function createPoolConfig(
+  baseToken: TokenConfig,
+  quoteToken: TokenConfig,
+  seed: number,
+): PoolConfig {
+  return {
+    name: `${baseToken.symbol}-${quoteToken.symbol}`,
+    base: baseToken.symbol,
+    quote: quoteToken.symbol,
+    mintBase: baseToken.mint,
+    mintQuote: quoteToken.mint,
+    swapInfo: createPubkey(seed).toBase58(),
+  };
+}
+
+// shares in raw unit
+export function createLiquidityProvider(
+  baseShare: BN,
+  quoteShare: BN,
+  stakedBaseShare: BN = new BN(0),
+  stakedQuoteShare: BN = new BN(0),
+): LiquidityProvider {
+  return {
+    bump: 0,
+    configKey: createPubkey(2),
+    swapKey: createPubkey(7),
+    owner: createPubkey(8),
+    baseShare,
+    quoteShare,
+    stakedBaseShare,
+    stakedQuoteShare,
+    deprecatedU64: [],
+    reservedU64: [],
+  };
+}
+
+export function createDeltafiUser(
+  owedTradeRewards: BN = new BN(0),
+  owedReferralRewards: BN = new BN(0),
+): DeltafiUser {
+  return {
+    bump: 0,
+    configKey: createPubkey(2),
+    owner: createPubkey(8),
+    referrer: PublicKey.default,
+    owedTradeRewards,
+    claimedTradeRewards: new BN(0),
+    owedReferralRewards,
+    claimedReferralRewards: new BN(0),
+    reserved: [],
+  };
+}
+
+// rent exemption of a token account
+export const TOKEN_ACCOUNT_RENT = 2039280;
+
+// connection that answers the queries of the transaction builders without a validator
+// no account exists, so the builders add the instructions to create the token accounts
+export function createOfflineConnection(): Connection {
+  return {
+    getAccountInfo: async () => null,
+    getMinimumBalanceForRentExemption: async () => TOKEN_ACCOUNT_RENT,
+  } as unknown as Connection;
+}
+
+export function createOfflineProgram(): Program<DeltafiDexV2> {
+  const wallet = createKeypair(8);
+  return getDeltafiDexV2(
+    createPubkey(9),
+    makeProvider(createOfflineConnection(), {
+      publicKey: wallet.publicKey,
+      signTransaction: async (transaction) => transaction,
+      signAllTransactions: async (transactions) => transactions,
+    }),
+  );
+}
+
+// name and arguments of a deltafi instruction, null for the instructions of other programs
+export function decodeInstruction(
+  program: Program<DeltafiDexV2>,
+  instruction: TransactionInstruction,
+): { name: string; data: any } | null {
+  if (!instruction.programId.equals(program.programId)) {
+    return null;
+  }
+  return (program.coder.instruction as BorshInstructionCoder).decode(instruction.data);
+}